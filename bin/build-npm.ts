@@ -4,14 +4,26 @@ import denoJson from "../deno.json" with { type: "json" }
 await emptyDir("./npm")
 
 await build({
-  entryPoints: ["./src/mod.ts"],
+  entryPoints: [
+    "./src/mod.ts",
+    {
+      name: "./node",
+      path: "./src/node.ts",
+    },
+    {
+      kind: "bin",
+      name: "time-uuid",
+      path: "./bin/time-uuid.ts",
+    },
+  ],
   test: false,
   outDir: "./npm",
   importMap: "./deno.json",
-  shims: {
-    // see JS docs for overview and more options
-    deno: true,
-    webSocket: true,
+  // The core only uses web standard APIs and looks node built-ins up at runtime, the node entry point imports them,
+  // so it needs no shims
+  shims: {},
+  compilerOptions: {
+    lib: ["ES2022", "DOM"],
   },
   package: {
     name: denoJson.name,
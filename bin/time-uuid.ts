@@ -0,0 +1,11 @@
+#!/usr/bin/env -S deno run
+import process from "node:process"
+
+import { runCli } from "../src/cli.ts"
+
+try {
+  console.log(runCli(process.argv.slice(2)))
+} catch (error) {
+  console.error((error as Error).message)
+  process.exitCode = 1
+}
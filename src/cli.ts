@@ -0,0 +1,208 @@
+import { parseArgs } from "node:util"
+
+import { fromHex } from "./lib/bytes.ts"
+import { TimeUuid, TimeUuidV6 } from "./lib/time-uuid.ts"
+import { TimeUuidV7 } from "./lib/time-uuid-v7.ts"
+import { Uuid } from "./lib/uuid.ts"
+
+/**
+ * Usage of the command-line tool
+ * @private
+ */
+const _usage = `Usage: time-uuid <command> [arguments] [options]
+
+Commands:
+  now                 Generates uuids for the current time
+  random              Generates random (version 4) uuids
+  min <date>          Returns the smallest uuid of an ISO 8601 date with an offset, such as 2025-02-21T10:00Z
+  max <date>          Returns the biggest uuid of the date, down to its 100ns ticks
+  decode <uuid>       Shows the version, variant, date, ticks, clock id and node id of a uuid
+  convert <uuid>      Shows the uuid in every format, or in the one of --to
+
+Options:
+  --version <1|6|7>   Version of the generated uuids, defaults to 1
+  --count <n>         Number of uuids to generate, defaults to 1
+  --node-id <id>      Node id of the version 1 and 6 uuids of now, as 6 ascii characters or 12 hex digits
+  --from <format>     Format of the uuid to decode or convert, defaults to string
+  --to <format>       Format to convert to
+  --json              Prints JSON
+  -h, --help          Prints this help
+
+Formats: string, hex, urn, base64url, base58, base32, v1, v6`
+
+/**
+ * Formats of a uuid the tool reads and writes
+ * @private
+ */
+const _formats: Record<string, (uuid: Uuid) => string | undefined> = {
+  string: (uuid) => uuid.toString(),
+  hex: (uuid) => uuid.toString().replace(/-/g, ""),
+  urn: (uuid) => `urn:uuid:${uuid}`,
+  base64url: (uuid) => uuid.toBase64Url(),
+  base58: (uuid) => uuid.toBase58(),
+  base32: (uuid) => uuid.toBase32(),
+  v1: (uuid) => uuid instanceof TimeUuidV6 ? uuid.toV1().toString() : undefined,
+  v6: (uuid) => uuid instanceof TimeUuid ? uuid.toV6().toString() : undefined,
+}
+
+/**
+ * Runs the command-line tool, as in <code>time-uuid decode 3d555680-9886-11e4-8101-010101010101</code>.
+ * @param args The arguments, without the executable and script paths.
+ * @returns The output to print.
+ * @throws {Error} When the command or its arguments are not valid
+ */
+export function runCli(args: string[]): string {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "version": { type: "string" },
+      "count": { type: "string" },
+      "node-id": { type: "string" },
+      "from": { type: "string" },
+      "to": { type: "string" },
+      "json": { type: "boolean" },
+      "help": { type: "boolean", short: "h" },
+    },
+  })
+  const [command, value] = positionals
+  if (values.help || !command) {
+    return _usage
+  }
+  switch (command) {
+    case "now":
+    case "random":
+    case "min":
+    case "max": {
+      const uuids = generate(command, value, values.version ?? "1", values.count ?? "1", values["node-id"])
+      return values.json ? JSON.stringify(uuids) : uuids.join("\n")
+    }
+    case "decode":
+      return print(decode(parse(getArgument(value, "uuid"), values.from)), values.json)
+    case "convert":
+      return print(convert(parse(getArgument(value, "uuid"), values.from), values.to), values.json)
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${_usage}`)
+  }
+}
+
+// Helper functions
+function generate(
+  command: string,
+  date: string | undefined,
+  version: string,
+  count: string,
+  nodeId?: string,
+): string[] {
+  const length = Number(count)
+  if (!Number.isInteger(length) || length < 1) {
+    throw new Error(`Invalid count: ${count}`)
+  }
+  if (nodeId !== undefined && (command !== "now" || version === "7")) {
+    throw new Error("The --node-id option only applies to the now command of version 1 and 6 uuids")
+  }
+  if (command === "random") {
+    return Array.from({ length }, () => Uuid.random().toString())
+  }
+  if (!["1", "6", "7"].includes(version)) {
+    throw new Error(`Invalid version: ${version}, it should be 1, 6 or 7`)
+  }
+  const node = nodeId !== undefined && /^[0-9a-f]{12}$/i.test(nodeId) ? fromHex(nodeId) : nodeId
+  const generateOne = (): Uuid => {
+    if (command === "now") {
+      return version === "7" ? TimeUuidV7.now() : version === "6" ? TimeUuidV6.now(node) : TimeUuid.now(node)
+    }
+    // Dates without an offset are rejected rather than read in the local time zone
+    const value = getArgument(date, "date")
+    try {
+      if (version === "7") {
+        return command === "min" ? TimeUuidV7.min(value) : TimeUuidV7.max(value)
+      }
+      if (version === "6") {
+        return command === "min" ? TimeUuidV6.min(value) : TimeUuidV6.max(value)
+      }
+      return command === "min" ? TimeUuid.min(value) : TimeUuid.max(value)
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new Error(
+          `Invalid date: ${date}, it should be an ISO 8601 date with an offset, such as 2025-02-21T10:00Z`,
+        )
+      }
+      throw error
+    }
+  }
+  return Array.from({ length }, generateOne).map((uuid) => uuid.toString())
+}
+
+function parse(value: string, from = "string"): Uuid {
+  switch (from) {
+    case "string":
+    case "hex":
+    case "urn":
+      return Uuid.parse(value)
+    case "base64url":
+      return Uuid.parse(Uuid.fromBase64Url(value).toString())
+    case "base58":
+      return Uuid.parse(Uuid.fromBase58(value).toString())
+    case "base32":
+      return Uuid.parse(Uuid.fromBase32(value).toString())
+    default:
+      throw new Error(`Invalid format: ${from}`)
+  }
+}
+
+function decode(uuid: Uuid): Record<string, string | number> {
+  const result: Record<string, string | number> = {
+    uuid: uuid.toString(),
+    version: uuid.getVersion(),
+    variant: uuid.getVariant(),
+  }
+  if (uuid instanceof TimeUuid || uuid instanceof TimeUuidV6) {
+    const v1 = uuid instanceof TimeUuid ? uuid : uuid.toV1()
+    const { timestamp, ticks } = v1.describe()
+    result.date = timestamp
+    result.ticks = ticks
+    result.timestamp = v1.getTimestamp().toString()
+    result.clockId = uuid.getClockId().toString("hex")
+    result.nodeId = uuid.getNodeId().toString("hex")
+  } else if (uuid instanceof TimeUuidV7) {
+    result.date = uuid.getDate().toISOString()
+  }
+  return result
+}
+
+function convert(uuid: Uuid, to?: string): Record<string, string> {
+  if (to !== undefined && !(to in _formats)) {
+    throw new Error(`Invalid format: ${to}`)
+  }
+  const result: Record<string, string> = {}
+  for (const [format, write] of Object.entries(_formats)) {
+    const value = to === undefined || to === format ? write(uuid) : undefined
+    if (value !== undefined) {
+      result[format] = value
+    }
+  }
+  if (to !== undefined && result[to] === undefined) {
+    throw new Error(`A version ${uuid.getVersion()} uuid can't be converted to ${to}`)
+  }
+  return result
+}
+
+function print(result: Record<string, string | number>, json?: boolean): string {
+  if (json) {
+    return JSON.stringify(result, null, 2)
+  }
+  const entries = Object.entries(result)
+  if (entries.length === 1) {
+    return String(entries[0][1])
+  }
+  const width = Math.max(...entries.map(([key]) => key.length))
+  return entries.map(([key, value]) => `${key.padEnd(width)}  ${value}`).join("\n")
+}
+
+function getArgument(value: string | undefined, name: string): string {
+  if (value === undefined) {
+    throw new Error(`Missing argument: <${name}>\n\n${_usage}`)
+  }
+  return value
+}
@@ -0,0 +1,100 @@
+import type { Buffer } from "node:buffer"
+
+/**
+ * Byte helpers shared by the uuid classes, working on plain Uint8Array so the library doesn't depend on node:buffer.
+ */
+
+/**
+ * The Buffer class of the runtime, when it has one
+ * @private
+ */
+const _Buffer = (globalThis as { Buffer?: typeof Buffer }).Buffer
+
+/**
+ * Returns a Buffer sharing the memory of the bytes, for compatibility with code written for Node.js.
+ * In runtimes without Buffer, such as browsers, the bytes are returned as is.
+ * @param bytes The bytes to wrap.
+ */
+export function toBuffer(bytes: Uint8Array): Buffer {
+  if (!_Buffer) {
+    return bytes as Buffer
+  }
+  return _Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+/**
+ * Returns a DataView over the same memory as the bytes, its accessors are big-endian by default.
+ * @param bytes The bytes to read or write.
+ */
+export function getDataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+/**
+ * Returns the lowercase hex representation of the bytes.
+ * @param bytes The bytes to encode.
+ */
+export function toHex(bytes: Uint8Array): string {
+  let result = ""
+  for (const byte of bytes) {
+    result += (byte < 0x10 ? "0" : "") + byte.toString(16)
+  }
+  return result
+}
+
+/**
+ * Returns the bytes of an hex string with an even number of valid hex characters.
+ * @param hex The hex string.
+ */
+export function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+/**
+ * Returns the bytes of an ascii string, one byte per character.
+ * @param value The ascii string.
+ */
+export function fromAscii(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length)
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff
+  }
+  return bytes
+}
+
+/**
+ * Returns the ascii string of the bytes, one character per byte.
+ * @param bytes The bytes to decode.
+ */
+export function toAscii(bytes: Uint8Array): string {
+  let result = ""
+  for (const byte of bytes) {
+    result += String.fromCharCode(byte & 0x7f)
+  }
+  return result
+}
+
+/**
+ * Compares the bytes lexicographically, as unsigned values.
+ * @returns A negative number if a is before b, a positive number if a is after b, or 0 if they are equal.
+ */
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length)
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i]
+    }
+  }
+  return a.length - b.length
+}
+
+/**
+ * Returns true if both contain the same bytes.
+ */
+export function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && compareBytes(a, b) === 0
+}
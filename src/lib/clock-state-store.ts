@@ -0,0 +1,131 @@
+import { getNodeModule } from "./runtime.ts"
+
+/**
+ * State of a version 1 uuid generator that must survive restarts, as described in RFC 4122 section 4.2.1.
+ */
+export interface ClockState {
+  /**
+   * The 14-bit clock sequence.
+   */
+  clockSequence: number
+  /**
+   * Milliseconds since the unix epoch up to which uuids may have been generated with this clock sequence.
+   */
+  timestamp: number
+  /**
+   * The node identifier, as hex, used with this clock sequence, if the generator has a fixed one.
+   */
+  nodeId?: string
+}
+
+/**
+ * Stable storage for the clock state of a version 1 uuid generator.
+ */
+export interface ClockStateStore {
+  /**
+   * Returns the last saved state, or undefined when there is none.
+   */
+  load(): ClockState | undefined
+
+  /**
+   * Saves the state, replacing the previous one.
+   * @param state The state to save.
+   */
+  save(state: ClockState): void
+}
+
+/**
+ * The synchronous file functions of <code>node:fs</code> used by a FileClockStateStore
+ */
+export interface ClockStateFileSystem {
+  readFileSync(path: string, encoding: "utf8"): string
+  writeFileSync(path: string, data: string): void
+  renameSync(oldPath: string, newPath: string): void
+}
+
+/**
+ * Clock state store that only lives as long as the process, used by default.
+ */
+export class MemoryClockStateStore implements ClockStateStore {
+  private state?: ClockState
+
+  /**
+   * Creates a new in-memory store.
+   * @param state The initial state, if any.
+   */
+  constructor(state?: ClockState) {
+    this.state = state && { ...state }
+  }
+
+  /**
+   * Returns the last saved state, or undefined when there is none.
+   */
+  load(): ClockState | undefined {
+    return this.state && { ...this.state }
+  }
+
+  /**
+   * Saves the state, replacing the previous one.
+   * @param state The state to save.
+   */
+  save(state: ClockState): void {
+    this.state = { ...state }
+  }
+}
+
+/**
+ * Clock state store that keeps the state as JSON in a local file, so it is restored when the process restarts.
+ * It needs the <code>node:fs</code> module: either passed to the constructor, or looked up with
+ * <code>process.getBuiltinModule()</code> in Deno and Node.js 20.16 and later. The store of the <code>node</code>
+ * entry point of the package imports it, for older Node.js versions.
+ * <p>Usage: <code>new TimeUuidGenerator({ stateStore: new FileClockStateStore("./clock-state.json") })</code></p>
+ */
+export class FileClockStateStore implements ClockStateStore {
+  private readonly path: string
+  private readonly fs?: ClockStateFileSystem
+
+  /**
+   * Creates a new file store.
+   * @param path The path of the file, it is created on the first save.
+   * @param fs The file functions, defaults to the <code>node:fs</code> module of the runtime.
+   */
+  constructor(path: string, fs?: ClockStateFileSystem) {
+    this.path = path
+    this.fs = fs
+  }
+
+  /**
+   * Reads the state from the file, or returns undefined when the file does not exist.
+   */
+  load(): ClockState | undefined {
+    let content: string
+    try {
+      content = this.getFs().readFileSync(this.path, "utf8")
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return undefined
+      }
+      throw error
+    }
+    const state = JSON.parse(content)
+    if (typeof state?.clockSequence !== "number" || typeof state?.timestamp !== "number") {
+      throw new Error(`Invalid clock state in ${this.path}`)
+    }
+    return state
+  }
+
+  /**
+   * Writes the state to a temporary file and moves it over the file, so a crash never leaves a partial state.
+   * @param state The state to save.
+   */
+  save(state: ClockState): void {
+    const temporaryPath = `${this.path}.tmp`
+    const fs = this.getFs()
+    fs.writeFileSync(temporaryPath, JSON.stringify(state))
+    fs.renameSync(temporaryPath, this.path)
+  }
+
+  private getFs(): ClockStateFileSystem {
+    return this.fs ?? getNodeModule<ClockStateFileSystem>("node:fs", "FileClockStateStore")
+  }
+}
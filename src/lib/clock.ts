@@ -0,0 +1,75 @@
+/**
+ * Source of the current time used to generate time-based uuids.
+ */
+export interface Clock {
+  /**
+   * Returns the current time, either as milliseconds since the unix epoch (number) or as 100-nanosecond intervals
+   * since the unix epoch (bigint).
+   */
+  now(): number | bigint
+}
+
+/**
+ * Clock backed by <code>Date.now()</code>, used by default.
+ */
+export class SystemClock implements Clock {
+  /**
+   * Returns the milliseconds since the unix epoch.
+   */
+  now(): number {
+    return Date.now()
+  }
+}
+
+/**
+ * Clock that only moves when told to, for deterministic generation in tests.
+ * <p>
+ *   With a step, every call to <code>now()</code> advances the clock by that amount of milliseconds after returning
+ *   the current time. Without it, the clock stays fixed until <code>set()</code> or <code>advance()</code> is called.
+ * </p>
+ * <p>Usage: <code>new FakeClock(new Date("2025-02-21T10:00:00Z"), 1)</code></p>
+ */
+export class FakeClock implements Clock {
+  private time: number
+  private readonly step: number
+
+  /**
+   * Creates a new fake clock.
+   * @param start The initial time, as a Date or milliseconds since the unix epoch.
+   * @param step The milliseconds to advance after each call to now().
+   */
+  constructor(start: Date | number = 0, step: number = 0) {
+    this.time = getTime(start)
+    this.step = step
+  }
+
+  /**
+   * Returns the current time of the clock and advances it by the step.
+   */
+  now(): number {
+    const time = this.time
+    this.time += this.step
+    return time
+  }
+
+  /**
+   * Moves the clock to the provided time, which can be before the current one.
+   * @param time The new time, as a Date or milliseconds since the unix epoch.
+   */
+  set(time: Date | number): void {
+    this.time = getTime(time)
+  }
+
+  /**
+   * Moves the clock by the provided amount of milliseconds.
+   * @param ms The milliseconds to advance, negative values move the clock backward.
+   */
+  advance(ms: number): void {
+    this.time += ms
+  }
+}
+
+// Helper functions
+function getTime(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value
+}
@@ -0,0 +1,164 @@
+import { InvalidUuidFormatError } from "./errors.ts"
+
+/**
+ * Alphabet of base64url, RFC 4648 section 5
+ * @private
+ */
+const _base64UrlAlphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_"
+/**
+ * Alphabet of base58, as used by Bitcoin and Flickr short ids
+ * @private
+ */
+const _base58Alphabet = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz"
+/**
+ * Alphabet of Crockford's base32, in ascending ASCII order so the encoded strings sort as the bytes
+ * @private
+ */
+const _base32Alphabet = "0123456789ABCDEFGHJKMNPQRSTVWXYZ"
+
+/**
+ * Length of the encodings of 16 bytes
+ * @private
+ */
+const _base64UrlLength = 22
+const _base58Length = 22
+const _base32Length = 26
+
+/**
+ * Encodes 16 bytes as 22 base64url characters, without padding.
+ * @param bytes The 16 bytes.
+ */
+export function encodeBase64Url(bytes: Uint8Array): string {
+  let result = ""
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+    const chars = i + 3 <= bytes.length ? 4 : bytes.length - i + 1
+    for (let j = 0; j < chars; j++) {
+      result += _base64UrlAlphabet[(chunk >>> (18 - j * 6)) & 0x3f]
+    }
+  }
+  return result
+}
+
+/**
+ * Decodes 22 base64url characters into 16 bytes.
+ * @param value The encoded string.
+ * @throws {InvalidUuidFormatError} When the value is not 22 base64url characters encoding 16 bytes
+ */
+export function decodeBase64Url(value: string): Uint8Array {
+  const digits = getDigits(value, _base64UrlLength, _base64UrlAlphabet, "base64url")
+  // 22 characters hold 132 bits, the last 4 bits must be zero for the encoding to be canonical
+  if ((digits[_base64UrlLength - 1] & 0x0f) !== 0) {
+    throw new InvalidUuidFormatError("Invalid base64url representation of Uuid", value)
+  }
+  const bytes = new Uint8Array(16)
+  let bits = 0
+  let accumulator = 0
+  let index = 0
+  for (const digit of digits) {
+    accumulator = ((accumulator << 6) | digit) & 0xffff
+    bits += 6
+    if (bits >= 8 && index < 16) {
+      bits -= 8
+      bytes[index++] = (accumulator >>> bits) & 0xff
+    }
+  }
+  return bytes
+}
+
+/**
+ * Encodes 16 bytes as 22 base58 characters, left padded with the zero digit so all values have the same length.
+ * @param bytes The 16 bytes.
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = toBigInt(bytes)
+  let result = ""
+  for (let i = 0; i < _base58Length; i++) {
+    result = _base58Alphabet[Number(value % 58n)] + result
+    value /= 58n
+  }
+  return result
+}
+
+/**
+ * Decodes 22 base58 characters into 16 bytes.
+ * @param value The encoded string.
+ * @throws {InvalidUuidFormatError} When the value is not 22 base58 characters encoding 16 bytes
+ */
+export function decodeBase58(value: string): Uint8Array {
+  let result = 0n
+  for (const digit of getDigits(value, _base58Length, _base58Alphabet, "base58")) {
+    result = result * 58n + BigInt(digit)
+  }
+  if (result >> 128n !== 0n) {
+    throw new InvalidUuidFormatError("Invalid base58 representation of Uuid, the value exceeds 128 bits", value)
+  }
+  return fromBigInt(result)
+}
+
+/**
+ * Encodes 16 bytes as 26 uppercase Crockford base32 characters, the first one holding only 3 bits.
+ * @param bytes The 16 bytes.
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  const value = toBigInt(bytes)
+  let result = ""
+  for (let i = _base32Length - 1; i >= 0; i--) {
+    result += _base32Alphabet[Number((value >> BigInt(i * 5)) & 0x1fn)]
+  }
+  return result
+}
+
+/**
+ * Decodes 26 Crockford base32 characters into 16 bytes, in any case, reading I and L as 1 and O as 0.
+ * @param value The encoded string.
+ * @throws {InvalidUuidFormatError} When the value is not 26 Crockford base32 characters encoding 16 bytes
+ */
+export function decodeBase32(value: string): Uint8Array {
+  const normalized = typeof value === "string" ? value.toUpperCase().replace(/[IL]/g, "1").replace(/O/g, "0") : value
+  const digits = getDigits(normalized, _base32Length, _base32Alphabet, "base32")
+  if (digits[0] > 7) {
+    throw new InvalidUuidFormatError("Invalid base32 representation of Uuid, the value exceeds 128 bits", value)
+  }
+  let result = 0n
+  for (const digit of digits) {
+    result = (result << 5n) | BigInt(digit)
+  }
+  return fromBigInt(result)
+}
+
+// Helper functions
+function getDigits(value: string, length: number, alphabet: string, name: string): number[] {
+  if (typeof value !== "string" || value.length !== length) {
+    throw new InvalidUuidFormatError(
+      `Invalid ${name} representation of Uuid, it should have ${length} characters`,
+      value,
+    )
+  }
+  const digits = new Array<number>(length)
+  for (let i = 0; i < length; i++) {
+    const digit = alphabet.indexOf(value[i])
+    if (digit < 0) {
+      throw new InvalidUuidFormatError(`Invalid ${name} representation of Uuid, unexpected character`, value)
+    }
+    digits[i] = digit
+  }
+  return digits
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  let value = 0n
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte)
+  }
+  return value
+}
+
+function fromBigInt(value: bigint): Uint8Array {
+  const bytes = new Uint8Array(16)
+  for (let i = 15; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn)
+    value >>= 8n
+  }
+  return bytes
+}
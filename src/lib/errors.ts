@@ -0,0 +1,44 @@
+/**
+ * Base class of the errors thrown by this library, so callers can catch all of them by type.
+ */
+export class UuidError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/**
+ * Thrown when a value can't be parsed as a uuid, or doesn't have the 16 bytes of a uuid.
+ */
+export class InvalidUuidFormatError extends UuidError {
+  /**
+   * The value that was rejected.
+   */
+  readonly value: unknown
+
+  constructor(message: string, value: unknown) {
+    super(message)
+    this.value = value
+  }
+}
+
+/**
+ * Thrown when a uuid doesn't have the version required by the operation.
+ */
+export class InvalidUuidVersionError extends UuidError {
+  /**
+   * The required version.
+   */
+  readonly expected: number
+  /**
+   * The version of the rejected uuid.
+   */
+  readonly actual: number
+
+  constructor(expected: number, actual: number) {
+    super(`Expected a version ${expected} uuid but got version ${actual}`)
+    this.expected = expected
+    this.actual = actual
+  }
+}
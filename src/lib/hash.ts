@@ -0,0 +1,216 @@
+/**
+ * Synchronous MD5 and SHA-1 digests, used for name-based uuids and node identifiers without depending on node:crypto.
+ * Web Crypto only offers an asynchronous SHA-1 and no MD5 at all.
+ * These are not meant for anything security related.
+ */
+
+/**
+ * Per-round shift amounts of MD5, RFC 1321
+ * @private
+ */
+const _md5Shifts = [
+  7,
+  12,
+  17,
+  22,
+  7,
+  12,
+  17,
+  22,
+  7,
+  12,
+  17,
+  22,
+  7,
+  12,
+  17,
+  22,
+  5,
+  9,
+  14,
+  20,
+  5,
+  9,
+  14,
+  20,
+  5,
+  9,
+  14,
+  20,
+  5,
+  9,
+  14,
+  20,
+  4,
+  11,
+  16,
+  23,
+  4,
+  11,
+  16,
+  23,
+  4,
+  11,
+  16,
+  23,
+  4,
+  11,
+  16,
+  23,
+  6,
+  10,
+  15,
+  21,
+  6,
+  10,
+  15,
+  21,
+  6,
+  10,
+  15,
+  21,
+  6,
+  10,
+  15,
+  21,
+]
+/**
+ * Per-round constants of MD5, the integer part of abs(sin(i + 1)) * 2^32
+ * @private
+ */
+const _md5Constants = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0)
+
+/**
+ * Returns the 16 bytes MD5 digest of the data.
+ * @param data The bytes to hash.
+ */
+export function md5(data: Uint8Array): Uint8Array {
+  const message = pad(data, true)
+  const view = new DataView(message.buffer)
+  let a0 = 0x67452301
+  let b0 = 0xefcdab89
+  let c0 = 0x98badcfe
+  let d0 = 0x10325476
+  const words = new Array<number>(16)
+  for (let offset = 0; offset < message.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4, true)
+    }
+    let a = a0
+    let b = b0
+    let c = c0
+    let d = d0
+    for (let i = 0; i < 64; i++) {
+      let f: number
+      let g: number
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+      const rotated = rotateLeft((a + f + _md5Constants[i] + words[g]) | 0, _md5Shifts[i])
+      a = d
+      d = c
+      c = b
+      b = (b + rotated) | 0
+    }
+    a0 = (a0 + a) | 0
+    b0 = (b0 + b) | 0
+    c0 = (c0 + c) | 0
+    d0 = (d0 + d) | 0
+  }
+  const digest = new Uint8Array(16)
+  const digestView = new DataView(digest.buffer)
+  digestView.setUint32(0, a0, true)
+  digestView.setUint32(4, b0, true)
+  digestView.setUint32(8, c0, true)
+  digestView.setUint32(12, d0, true)
+  return digest
+}
+
+/**
+ * Returns the 20 bytes SHA-1 digest of the data.
+ * @param data The bytes to hash.
+ */
+export function sha1(data: Uint8Array): Uint8Array {
+  const message = pad(data, false)
+  const view = new DataView(message.buffer)
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]
+  const words = new Array<number>(80)
+  for (let offset = 0; offset < message.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4, false)
+    }
+    for (let i = 16; i < 80; i++) {
+      words[i] = rotateLeft(words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16], 1)
+    }
+    let [a, b, c, d, e] = state
+    for (let i = 0; i < 80; i++) {
+      let f: number
+      let k: number
+      if (i < 20) {
+        f = (b & c) | (~b & d)
+        k = 0x5a827999
+      } else if (i < 40) {
+        f = b ^ c ^ d
+        k = 0x6ed9eba1
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d)
+        k = 0x8f1bbcdc
+      } else {
+        f = b ^ c ^ d
+        k = 0xca62c1d6
+      }
+      const temp = (rotateLeft(a, 5) + f + e + k + words[i]) | 0
+      e = d
+      d = c
+      c = rotateLeft(b, 30)
+      b = a
+      a = temp
+    }
+    state[0] = (state[0] + a) | 0
+    state[1] = (state[1] + b) | 0
+    state[2] = (state[2] + c) | 0
+    state[3] = (state[3] + d) | 0
+    state[4] = (state[4] + e) | 0
+  }
+  const digest = new Uint8Array(20)
+  const digestView = new DataView(digest.buffer)
+  state.forEach((value, i) => digestView.setUint32(i * 4, value, false))
+  return digest
+}
+
+// Helper functions
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits))
+}
+
+/**
+ * Appends the 0x80 byte, the zero padding and the 64-bit length in bits shared by MD5 and SHA-1.
+ */
+function pad(data: Uint8Array, littleEndian: boolean): Uint8Array {
+  const length = Math.ceil((data.length + 9) / 64) * 64
+  const message = new Uint8Array(length)
+  message.set(data)
+  message[data.length] = 0x80
+  const view = new DataView(message.buffer)
+  const bits = data.length * 8
+  const high = Math.floor(bits / 0x100000000)
+  const low = bits >>> 0
+  if (littleEndian) {
+    view.setUint32(length - 8, low, true)
+    view.setUint32(length - 4, high, true)
+  } else {
+    view.setUint32(length - 8, high, false)
+    view.setUint32(length - 4, low, false)
+  }
+  return message
+}
@@ -0,0 +1,63 @@
+/**
+ * Parsing of ISO 8601 dates with an offset down to the 100-nanosecond ticks, shared by the version 1, 6 and 7 uuids.
+ */
+import type { TimeUuidRounding } from "./time-uuid.ts"
+
+/**
+ * ISO 8601 date and time with an offset, in any fractional precision: year, month, day, hour, minute, second, fraction
+ * and offset
+ * @const
+ * @private
+ */
+const _isoDatePattern =
+  /^([+-]\d{6}|\d{4})-(\d{2})-(\d{2})[Tt ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?([Zz]|[+-]\d{2}(?::?\d{2})?)$/
+
+/**
+ * Returns the 100-nanosecond ticks since the unix epoch of an ISO 8601 date with an offset, rounding the digits below
+ * 100 nanoseconds.
+ */
+export function parseISOString(value: string, rounding: TimeUuidRounding): bigint {
+  const match = typeof value === "string" ? _isoDatePattern.exec(value) : null
+  if (!match) {
+    throw new RangeError(`Invalid ISO 8601 date with an offset: ${value}`)
+  }
+  const [, year, month, day, hour, minute, second = "0", fraction = "", offset] = match
+  const date = new Date(0)
+  date.setUTCFullYear(Number(year), Number(month) - 1, Number(day))
+  date.setUTCHours(Number(hour), Number(minute), Number(second))
+  const offsetHours = offset.length > 1 ? Number(offset.slice(1, 3)) : 0
+  const offsetMinutes = offset.length > 3 ? Number(offset.slice(-2)) : 0
+  if (
+    date.getUTCFullYear() !== Number(year) || date.getUTCMonth() !== Number(month) - 1 ||
+    date.getUTCDate() !== Number(day) || Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59 ||
+    offsetHours > 23 || offsetMinutes > 59
+  ) {
+    throw new RangeError(`Invalid ISO 8601 date with an offset: ${value}`)
+  }
+  const offsetMs = (offset[0] === "-" ? -1 : 1) * (offsetHours * 60 + offsetMinutes) * 60000
+  const seconds = BigInt((date.getTime() - offsetMs) / 1000)
+  // The fraction has as many decimal places as digits, there are 10^7 ticks in a second
+  const scale = 10n ** BigInt(fraction.length)
+  return divideRounding((seconds * scale + BigInt(fraction || "0")) * 10000000n, scale, rounding)
+}
+
+/**
+ * Divides with the rounding of <code>TimeUuid.fromEpochNanoseconds()</code>, where bigint division truncates.
+ */
+export function divideRounding(value: bigint, divisor: bigint, rounding: TimeUuidRounding): bigint {
+  const quotient = value / divisor
+  const remainder = value % divisor
+  switch (rounding) {
+    case "floor":
+      return remainder < 0n ? quotient - 1n : quotient
+    case "ceil":
+      return remainder > 0n ? quotient + 1n : quotient
+    case "halfExpand":
+      if (remainder * 2n >= divisor) {
+        return quotient + 1n
+      }
+      return remainder * 2n <= -divisor ? quotient - 1n : quotient
+    default:
+      throw new RangeError(`Invalid rounding: ${rounding}`)
+  }
+}
@@ -0,0 +1,116 @@
+import type { Buffer } from "node:buffer"
+import type * as os from "node:os"
+
+import { fromAscii, fromHex, toBuffer } from "./bytes.ts"
+import { sha1 } from "./hash.ts"
+import { CryptoRandom, type RandomSource } from "./random.ts"
+import { getNodeModule } from "./runtime.ts"
+
+/**
+ * Network interface address, as returned by <code>os.networkInterfaces()</code> and
+ * <code>Deno.networkInterfaces()</code>, only the MAC address and the internal flag are used
+ */
+export interface NetworkInterfaceAddress {
+  /**
+   * The MAC address, as colon separated hex.
+   */
+  mac: string
+  /**
+   * Whether it is a loopback or similar interface that is not remotely accessible.
+   */
+  internal?: boolean
+  address?: string
+  netmask?: string
+  family?: string | number
+  cidr?: string | null
+  name?: string
+}
+
+/**
+ * Network interfaces, either grouped by name as returned by <code>os.networkInterfaces()</code> or as a flat list as
+ * returned by <code>Deno.networkInterfaces()</code>
+ */
+export type NetworkInterfaces = Record<string, NetworkInterfaceAddress[] | undefined> | NetworkInterfaceAddress[]
+
+/**
+ * Node identifier used by generators that don't have one of their own
+ * @private
+ */
+let _defaultNodeId: Uint8Array | undefined
+
+/**
+ * Strategies to derive the 6-byte node identifier of version 1 and 6 uuids, as described in RFC 4122 section 4.5.
+ * <p>
+ *   Identifiers that don't come from a network card have the multicast bit set, so they can never conflict with the
+ *   address of a real network card.
+ * </p>
+ * <p>Usage: <code>NodeId.setDefault(NodeId.fromName(os.hostname()))</code></p>
+ */
+export class NodeId {
+  /**
+   * Returns the MAC address of the first external network interface of the host.
+   * @param interfaces The network interfaces, either grouped by name or as a flat list, defaults to
+   * <code>os.networkInterfaces()</code>, which is only available in Node.js and Deno.
+   */
+  static fromMac(interfaces: NetworkInterfaces = getNetworkInterfaces()): Buffer {
+    const addresses = Array.isArray(interfaces) ? interfaces : Object.values(interfaces).flatMap((list) => list ?? [])
+    for (const address of addresses) {
+      if (!address.internal && address.mac && address.mac !== "00:00:00:00:00:00") {
+        return toBuffer(fromHex(address.mac.replace(/:/g, "")))
+      }
+    }
+    throw new Error("No network interface with a MAC address was found")
+  }
+
+  /**
+   * Returns a node identifier derived from the SHA-1 hash of a name, such as a hostname or a pod name.
+   * The same name always gives the same identifier.
+   * @param name The name to hash.
+   */
+  static fromName(name: string): Buffer {
+    return toBuffer(setMulticastBit(sha1(new TextEncoder().encode(name)).subarray(0, 6)))
+  }
+
+  /**
+   * Returns a random node identifier.
+   * @param random The source of the random bytes, if not provided, it will use <code>crypto.getRandomValues()</code>.
+   */
+  static random(random: RandomSource = new CryptoRandom()): Buffer {
+    return toBuffer(setMulticastBit(new Uint8Array(random.getRandomBytes(6).subarray(0, 6))))
+  }
+
+  /**
+   * Returns the process-wide default node identifier, if one was set.
+   */
+  static getDefault(): Buffer | undefined {
+    return _defaultNodeId && toBuffer(_defaultNodeId)
+  }
+
+  /**
+   * Sets the node identifier used by all generators that don't have one of their own, for example with
+   * <code>NodeId.setDefault(NodeId.random())</code> to use the same random identifier for the whole process.
+   * @param nodeId A 6-length Uint8Array or string of 6 ascii characters, or undefined to use the random identifier of
+   * the process again.
+   */
+  static setDefault(nodeId?: string | Uint8Array): void {
+    if (nodeId === undefined) {
+      _defaultNodeId = undefined
+      return
+    }
+    const bytes = typeof nodeId === "string" ? fromAscii(nodeId) : nodeId
+    if (bytes.length !== 6) {
+      throw new Error("Node identifier must have 6 bytes")
+    }
+    _defaultNodeId = new Uint8Array(bytes)
+  }
+}
+
+// Helper functions
+function getNetworkInterfaces(): ReturnType<typeof os.networkInterfaces> {
+  return getNodeModule<typeof os>("node:os", "NodeId.fromMac()").networkInterfaces()
+}
+
+function setMulticastBit(bytes: Uint8Array): Uint8Array {
+  bytes[0] |= 0x01
+  return bytes
+}
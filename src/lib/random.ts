@@ -0,0 +1,157 @@
+/**
+ * Largest amount of bytes <code>crypto.getRandomValues()</code> fills in a single call
+ * @private
+ */
+const _maxRandomValuesLength = 65536
+/**
+ * Web Crypto used by default when the runtime doesn't provide <code>globalThis.crypto</code>
+ * @private
+ */
+let _fallbackCrypto: RandomValuesSource | undefined
+
+/**
+ * Source of the random bytes used to generate uuids.
+ */
+export interface RandomSource {
+  /**
+   * Returns the requested amount of random bytes.
+   * @param length The number of bytes.
+   */
+  getRandomBytes(length: number): Uint8Array
+}
+
+/**
+ * The <code>getRandomValues()</code> function of a Web Crypto implementation, such as <code>globalThis.crypto</code>
+ * or <code>webcrypto</code> of <code>node:crypto</code>.
+ */
+export interface RandomValuesSource {
+  /**
+   * Fills the array with cryptographically strong random values.
+   * @param array The array to fill.
+   */
+  getRandomValues(array: Uint8Array): Uint8Array
+}
+
+/**
+ * Random source backed by the Web Crypto <code>crypto.getRandomValues()</code>, used by default.
+ */
+export class CryptoRandom implements RandomSource {
+  private readonly crypto?: RandomValuesSource
+
+  /**
+   * Creates a new Web Crypto random source.
+   * @param crypto The Web Crypto implementation, defaults to <code>globalThis.crypto</code>, or else to the one of
+   * <code>CryptoRandom.setFallbackCrypto()</code>.
+   */
+  constructor(crypto?: RandomValuesSource) {
+    this.crypto = crypto
+  }
+
+  /**
+   * Sets the Web Crypto implementation of the random sources without one when the runtime doesn't provide
+   * <code>globalThis.crypto</code>, as the node entry point does with <code>webcrypto</code> on Node.js 18.
+   * @param crypto The Web Crypto implementation, or undefined to remove it.
+   */
+  static setFallbackCrypto(crypto: RandomValuesSource | undefined): void {
+    _fallbackCrypto = crypto
+  }
+
+  /**
+   * Returns the requested amount of cryptographically strong random bytes.
+   * @param length The number of bytes.
+   * @throws {Error} When neither the source, the runtime nor the fallback provide a Web Crypto implementation
+   */
+  getRandomBytes(length: number): Uint8Array {
+    const crypto = this.crypto ?? globalThis.crypto ?? _fallbackCrypto
+    if (!crypto) {
+      throw new Error("Web Crypto is not available in this runtime, import the node entry point of the package")
+    }
+    const bytes = new Uint8Array(length)
+    for (let offset = 0; offset < length; offset += _maxRandomValuesLength) {
+      crypto.getRandomValues(bytes.subarray(offset, offset + _maxRandomValuesLength))
+    }
+    return bytes
+  }
+}
+
+/**
+ * Random source that draws its bytes from a pool filled by another source, so generating many uuids with random node
+ * and clock identifiers doesn't need an entropy call per uuid.
+ * <p>Usage: <code>new TimeUuidGenerator({ random: new PooledRandom(new CryptoRandom(), 65536) })</code></p>
+ */
+export class PooledRandom implements RandomSource {
+  private readonly source: RandomSource
+  private readonly size: number
+  private pool: Uint8Array = new Uint8Array(0)
+  private offset = 0
+
+  /**
+   * Creates a new pooled random source.
+   * @param source The source that fills the pool, defaults to <code>crypto.getRandomValues()</code>.
+   * @param size The number of bytes requested from the source at once, defaults to 4096.
+   */
+  constructor(source: RandomSource = new CryptoRandom(), size = 4096) {
+    this.source = source
+    this.size = size
+  }
+
+  /**
+   * Returns the next bytes of the pool, filling a new pool when there aren't enough left.
+   * The returned bytes are never handed out again, nor overwritten.
+   * @param length The number of bytes.
+   */
+  getRandomBytes(length: number): Uint8Array {
+    if (length > this.size) {
+      return this.source.getRandomBytes(length)
+    }
+    if (this.offset + length > this.pool.length) {
+      this.pool = this.source.getRandomBytes(this.size)
+      this.offset = 0
+    }
+    this.offset += length
+    return this.pool.subarray(this.offset - length, this.offset)
+  }
+}
+
+/**
+ * Pseudo random source that always produces the same sequence of bytes for the same seed, for deterministic
+ * generation in tests. It is not cryptographically strong, do not use it to generate production ids.
+ * <p>Usage: <code>new SeededRandom(42)</code></p>
+ */
+export class SeededRandom implements RandomSource {
+  private state: number
+
+  /**
+   * Creates a new seeded random source.
+   * @param seed A 32-bit integer seed.
+   */
+  constructor(seed: number) {
+    this.state = seed | 0
+  }
+
+  /**
+   * Returns the next bytes of the sequence.
+   * @param length The number of bytes.
+   */
+  getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length)
+    let word = 0
+    for (let i = 0; i < length; i++) {
+      if (i % 4 === 0) {
+        word = this.next()
+      }
+      bytes[i] = (word >>> ((i % 4) * 8)) & 0xff
+    }
+    return bytes
+  }
+
+  /**
+   * Returns the next 32-bit value of the mulberry32 sequence.
+   */
+  private next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0
+    let t = Math.imul(this.state ^ (this.state >>> 15), 1 | this.state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return (t ^ (t >>> 14)) >>> 0
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Access to the Node.js built-in modules without importing them, so the library also loads in browsers and edge
+ * runtimes. Deno and Node.js (20.16 and later) both provide <code>process.getBuiltinModule()</code>, older Node.js
+ * versions use the <code>node</code> entry point, which imports the modules statically.
+ */
+
+/**
+ * Returns a Node.js built-in module, or throws when the runtime doesn't provide it.
+ * @param id The module identifier, such as <code>"node:fs"</code>.
+ * @param feature The feature that needs the module, for the error message.
+ */
+export function getNodeModule<T>(id: string, feature: string): T {
+  const process = (globalThis as { process?: { getBuiltinModule?: (id: string) => unknown } }).process
+  const module = process?.getBuiltinModule?.(id) as T | undefined
+  if (!module) {
+    throw new Error(
+      `${feature} requires the ${id} module, which is not available in this runtime, import the node entry point ` +
+        "of the package or provide it explicitly",
+    )
+  }
+  return module
+}
@@ -0,0 +1,237 @@
+import { TimeUuid, type TimeUuidRange } from "./time-uuid.ts"
+
+/**
+ * Size of the time buckets
+ */
+export type TimeBucketUnit = "minute" | "hour" | "day" | "month"
+
+/**
+ * Options for a TimeBucketer
+ */
+export interface TimeBucketerOptions {
+  /**
+   * The size of the buckets.
+   */
+  unit: TimeBucketUnit
+  /**
+   * The IANA time zone in which the buckets start, such as <code>"Europe/Copenhagen"</code>, defaults to UTC.
+   */
+  timeZone?: string
+}
+
+/**
+ * A time bucket, with the bounds of the TimeUuid values it holds
+ */
+export interface TimeBucket extends TimeUuidRange {
+  /**
+   * The key of the bucket, the local time of its start in the time zone truncated to the unit, such as
+   * <code>"2025-02-21T13"</code> for an hour.
+   */
+  key: string
+  /**
+   * The first millisecond of the bucket.
+   */
+  start: Date
+  /**
+   * The first millisecond after the bucket, which is the start of the next one.
+   */
+  end: Date
+}
+
+/**
+ * Local date and time fields in a time zone
+ */
+interface WallTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+/**
+ * Milliseconds in a day, the furthest apart the offsets around a local time are read
+ * @const
+ * @private
+ */
+const _msInDay = 86400000
+
+/**
+ * Maps TimeUuid values to time buckets of a fixed unit in a time zone, for example to spread an event store over
+ * Cassandra partitions by hour or day.
+ * <p>
+ *   Buckets follow the local time of the time zone: a day bucket lasts 23 or 25 hours when the daylight saving time
+ *   changes, an hour skipped by the change has no bucket and an hour repeated by it is a single 2-hour bucket.
+ * </p>
+ * <p>Usage: <code>new TimeBucketer({ unit: "day", timeZone: "Europe/Copenhagen" }).getKey(TimeUuid.now())</code></p>
+ */
+export class TimeBucketer {
+  private readonly unit: TimeBucketUnit
+  private readonly format: Intl.DateTimeFormat
+
+  /**
+   * Creates a new bucketer.
+   * @param options The unit and time zone of the buckets.
+   * @throws {RangeError} When the time zone is not supported
+   */
+  constructor(options: TimeBucketerOptions) {
+    if (!["minute", "hour", "day", "month"].includes(options.unit)) {
+      throw new RangeError(`Invalid time bucket unit: ${options.unit}`)
+    }
+    this.unit = options.unit
+    this.format = new Intl.DateTimeFormat("en-US", {
+      timeZone: options.timeZone ?? "UTC",
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+  }
+
+  /**
+   * Returns the key of the bucket holding the value.
+   * @param value The TimeUuid or date.
+   */
+  getKey(value: TimeUuid | Date): string {
+    return formatKey(this.truncate(this.getWallTime(getTime(value))), this.unit)
+  }
+
+  /**
+   * Returns the bucket holding the value.
+   * @param value The TimeUuid or date.
+   */
+  getBucket(value: TimeUuid | Date): TimeBucket {
+    const wallTime = this.truncate(this.getWallTime(getTime(value)))
+    const start = this.getStartTime(wallTime)
+    const end = this.getStartTime(this.increment(wallTime))
+    return {
+      key: formatKey(wallTime, this.unit),
+      start: new Date(start),
+      end: new Date(end),
+      ...TimeUuid.range(new Date(start), new Date(end - 1)),
+    }
+  }
+
+  /**
+   * Returns every bucket from the one holding the start value to the one holding the end value, in time order.
+   * @param start The first TimeUuid or date.
+   * @param end The last TimeUuid or date, included.
+   * @throws {RangeError} When the start is after the end
+   */
+  getBuckets(start: TimeUuid | Date, end: TimeUuid | Date): TimeBucket[] {
+    const endTime = getTime(end)
+    if (getTime(start) > endTime) {
+      throw new RangeError("The start of the range must be before its end")
+    }
+    const buckets: TimeBucket[] = []
+    let bucket = this.getBucket(start)
+    buckets.push(bucket)
+    while (bucket.end.getTime() <= endTime) {
+      bucket = this.getBucket(bucket.end)
+      buckets.push(bucket)
+    }
+    return buckets
+  }
+
+  /**
+   * Returns the local date and time of the instant in the time zone.
+   */
+  private getWallTime(time: number): WallTime {
+    const fields: Record<string, number> = {}
+    for (const part of this.format.formatToParts(time)) {
+      if (part.type !== "literal") {
+        fields[part.type] = Number(part.value)
+      }
+    }
+    return { year: fields.year, month: fields.month, day: fields.day, hour: fields.hour, minute: fields.minute }
+  }
+
+  /**
+   * Returns the difference in milliseconds between the local time of the time zone and UTC at the instant.
+   */
+  private getOffset(time: number): number {
+    const wholeMinute = time - (((time % 60000) + 60000) % 60000)
+    return getUtcTime(this.getWallTime(wholeMinute)) - wholeMinute
+  }
+
+  /**
+   * Returns the first instant with the local time, or the instant the local time is skipped to when the daylight
+   * saving time change skips it.
+   */
+  private getStartTime(wallTime: WallTime): number {
+    const utcTime = getUtcTime(wallTime)
+    const before = utcTime - this.getOffset(utcTime - _msInDay)
+    const after = utcTime - this.getOffset(utcTime + _msInDay)
+    const candidates = [before, after].filter((time) => getUtcTime(this.getWallTime(time)) === utcTime)
+    return candidates.length > 0 ? Math.min(...candidates) : before
+  }
+
+  private truncate(wallTime: WallTime): WallTime {
+    switch (this.unit) {
+      case "minute":
+        return wallTime
+      case "hour":
+        return { ...wallTime, minute: 0 }
+      case "day":
+        return { ...wallTime, hour: 0, minute: 0 }
+      case "month":
+        return { ...wallTime, day: 1, hour: 0, minute: 0 }
+    }
+  }
+
+  private increment(wallTime: WallTime): WallTime {
+    const { year, month, day, hour, minute } = wallTime
+    switch (this.unit) {
+      case "minute":
+        return getWallTimeOfUtc(Date.UTC(year, month - 1, day, hour, minute + 1))
+      case "hour":
+        return getWallTimeOfUtc(Date.UTC(year, month - 1, day, hour + 1, minute))
+      case "day":
+        return getWallTimeOfUtc(Date.UTC(year, month - 1, day + 1, hour, minute))
+      case "month":
+        return getWallTimeOfUtc(Date.UTC(year, month, day, hour, minute))
+    }
+  }
+}
+
+// Helper functions
+function getTime(value: TimeUuid | Date): number {
+  return value instanceof TimeUuid ? value.getDate().getTime() : value.getTime()
+}
+
+function getUtcTime(wallTime: WallTime): number {
+  return Date.UTC(wallTime.year, wallTime.month - 1, wallTime.day, wallTime.hour, wallTime.minute)
+}
+
+function getWallTimeOfUtc(time: number): WallTime {
+  const date = new Date(time)
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+  }
+}
+
+function formatKey(wallTime: WallTime, unit: TimeBucketUnit): string {
+  const month = `${String(wallTime.year).padStart(4, "0")}-${pad(wallTime.month)}`
+  const day = `${month}-${pad(wallTime.day)}`
+  switch (unit) {
+    case "minute":
+      return `${day}T${pad(wallTime.hour)}:${pad(wallTime.minute)}`
+    case "hour":
+      return `${day}T${pad(wallTime.hour)}`
+    case "day":
+      return day
+    case "month":
+      return month
+  }
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0")
+}
@@ -0,0 +1,317 @@
+import { TimeUuid } from "./time-uuid.ts"
+
+/**
+ * Options of a scan of a TimeUuidIndex
+ */
+export interface TimeUuidIndexScanOptions {
+  /**
+   * The first key or date of the scan, defaults to the first key of the index.
+   */
+  start?: TimeUuid | Date
+  /**
+   * The last key or date of the scan, defaults to the last key of the index.
+   */
+  end?: TimeUuid | Date
+  /**
+   * Whether the start and end are part of the scan, defaults to true.
+   * When false, a date bound excludes its whole millisecond, as in <code>TimeUuid.range()</code>.
+   */
+  inclusive?: boolean
+  /**
+   * Returns the entries from the end to the start, defaults to false.
+   */
+  descending?: boolean
+  /**
+   * The maximum number of entries returned, defaults to all of them.
+   */
+  limit?: number
+}
+
+/**
+ * Sorted run of the keys and values of a TimeUuidIndex
+ */
+interface Chunk<V> {
+  keys: TimeUuid[]
+  values: V[]
+}
+
+/**
+ * Position of an entry, the chunk and the index in the chunk, or the number of chunks and 0 past the last entry
+ */
+interface Position {
+  chunk: number
+  index: number
+}
+
+/**
+ * Largest number of entries of a chunk before it is split in two
+ * @private
+ */
+const _maxChunkSize = 512
+
+/**
+ * Sorted collection of values keyed by TimeUuid, in the order of <code>TimeUuid.compare()</code> which is the order
+ * of Cassandra timeuuid columns, for in-process read models that need time range scans and cursor pagination.
+ * <p>
+ *   The entries are kept in sorted chunks of up to 512 entries, so lookups, inserts and deletes stay logarithmic
+ *   and cheap with millions of entries. The index must not be changed while iterating over it.
+ * </p>
+ * <p>Usage: <code>index.scan({ start: cursor, inclusive: false, limit: 100 })</code></p>
+ */
+export class TimeUuidIndex<V> implements Iterable<[TimeUuid, V]> {
+  private chunks: Chunk<V>[] = []
+  private length = 0
+
+  /**
+   * Creates a new index.
+   * @param entries The initial keys and values, a later value replaces an earlier one of an equal key.
+   */
+  constructor(entries?: Iterable<readonly [TimeUuid, V]>) {
+    for (const [key, value] of entries ?? []) {
+      this.set(key, value)
+    }
+  }
+
+  /**
+   * The number of keys in the index.
+   */
+  get size(): number {
+    return this.length
+  }
+
+  /**
+   * Returns the value of the key, or undefined when the index doesn't have it.
+   * @param key The TimeUuid.
+   */
+  get(key: TimeUuid): V | undefined {
+    const position = this.find(key)
+    return position ? this.chunks[position.chunk].values[position.index] : undefined
+  }
+
+  /**
+   * Returns true if the index has a key equal to the TimeUuid.
+   * @param key The TimeUuid.
+   */
+  has(key: TimeUuid): boolean {
+    return this.find(key) !== undefined
+  }
+
+  /**
+   * Sets the value of the key, replacing the value of an equal key.
+   * @param key The TimeUuid.
+   * @param value The value.
+   */
+  set(key: TimeUuid, value: V): this {
+    if (this.chunks.length === 0) {
+      this.chunks.push({ keys: [key], values: [value] })
+      this.length++
+      return this
+    }
+    const position = this.search(key, false)
+    // Past the last entry, the key goes at the end of the last chunk
+    const chunkIndex = Math.min(position.chunk, this.chunks.length - 1)
+    const chunk = this.chunks[chunkIndex]
+    const index = position.chunk === chunkIndex ? position.index : chunk.keys.length
+    if (index < chunk.keys.length && TimeUuid.compare(chunk.keys[index], key) === 0) {
+      chunk.values[index] = value
+      return this
+    }
+    chunk.keys.splice(index, 0, key)
+    chunk.values.splice(index, 0, value)
+    this.length++
+    if (chunk.keys.length > _maxChunkSize) {
+      const half = chunk.keys.length >> 1
+      this.chunks.splice(chunkIndex + 1, 0, { keys: chunk.keys.splice(half), values: chunk.values.splice(half) })
+    }
+    return this
+  }
+
+  /**
+   * Removes the key and its value.
+   * @param key The TimeUuid.
+   * @returns True if the index had the key.
+   */
+  delete(key: TimeUuid): boolean {
+    const position = this.find(key)
+    if (!position) {
+      return false
+    }
+    const chunk = this.chunks[position.chunk]
+    chunk.keys.splice(position.index, 1)
+    chunk.values.splice(position.index, 1)
+    if (chunk.keys.length === 0) {
+      this.chunks.splice(position.chunk, 1)
+    }
+    this.length--
+    return true
+  }
+
+  /**
+   * Removes all the keys.
+   */
+  clear(): void {
+    this.chunks = []
+    this.length = 0
+  }
+
+  /**
+   * Returns the first key and its value, or undefined when the index is empty.
+   */
+  first(): [TimeUuid, V] | undefined {
+    const chunk = this.chunks[0]
+    return chunk ? [chunk.keys[0], chunk.values[0]] : undefined
+  }
+
+  /**
+   * Returns the last key and its value, or undefined when the index is empty.
+   */
+  last(): [TimeUuid, V] | undefined {
+    const chunk = this.chunks[this.chunks.length - 1]
+    return chunk ? [chunk.keys[chunk.keys.length - 1], chunk.values[chunk.values.length - 1]] : undefined
+  }
+
+  /**
+   * Returns the keys and their values between the bounds, in ascending order unless <code>descending</code> is set.
+   * @param {TimeUuidIndexScanOptions} [options] The bounds, their inclusiveness, the order and the limit.
+   * @throws {RangeError} When the limit is not a positive integer
+   */
+  scan(options: TimeUuidIndexScanOptions = {}): IterableIterator<[TimeUuid, V]> {
+    const limit = options.limit ?? Infinity
+    if (limit !== Infinity && (!Number.isInteger(limit) || limit < 0)) {
+      throw new RangeError("The limit must be a positive integer")
+    }
+    const inclusive = options.inclusive !== false
+    const from = options.start === undefined
+      ? { chunk: 0, index: 0 }
+      : this.search(...getSearchBound(options.start, true, inclusive))
+    const to = options.end === undefined
+      ? { chunk: this.chunks.length, index: 0 }
+      : this.search(...getSearchBound(options.end, false, inclusive))
+    return options.descending ? this.iterateDescending(from, to, limit) : this.iterate(from, to, limit)
+  }
+
+  /**
+   * Returns the keys, in ascending order.
+   */
+  *keys(): IterableIterator<TimeUuid> {
+    for (const chunk of this.chunks) {
+      yield* chunk.keys
+    }
+  }
+
+  /**
+   * Returns the values, in ascending order of their keys.
+   */
+  *values(): IterableIterator<V> {
+    for (const chunk of this.chunks) {
+      yield* chunk.values
+    }
+  }
+
+  /**
+   * Returns the keys and their values, in ascending order.
+   */
+  entries(): IterableIterator<[TimeUuid, V]> {
+    return this.scan()
+  }
+
+  /**
+   * Returns the keys and their values, in ascending order.
+   */
+  [Symbol.iterator](): IterableIterator<[TimeUuid, V]> {
+    return this.scan()
+  }
+
+  /**
+   * Returns the entries from the first position, included, to the second one, excluded.
+   */
+  private *iterate(from: Position, to: Position, limit: number): IterableIterator<[TimeUuid, V]> {
+    for (let position = from, count = 0; isBefore(position, to) && count < limit; count++) {
+      const chunk = this.chunks[position.chunk]
+      yield [chunk.keys[position.index], chunk.values[position.index]]
+      position = this.next(position)
+    }
+  }
+
+  /**
+   * Returns the entries from the second position, excluded, back to the first one, included.
+   */
+  private *iterateDescending(from: Position, to: Position, limit: number): IterableIterator<[TimeUuid, V]> {
+    for (let position = this.previous(to), count = 0; position && !isBefore(position, from) && count < limit; count++) {
+      const chunk = this.chunks[position.chunk]
+      yield [chunk.keys[position.index], chunk.values[position.index]]
+      position = this.previous(position)
+    }
+  }
+
+  private find(key: TimeUuid): Position | undefined {
+    const position = this.search(key, false)
+    const chunk = this.chunks[position.chunk]
+    return chunk && TimeUuid.compare(chunk.keys[position.index], key) === 0 ? position : undefined
+  }
+
+  /**
+   * Returns the position of the first entry after the key when strict, or of the first one not before it otherwise.
+   */
+  private search(key: TimeUuid, strict: boolean): Position {
+    const matches = (other: TimeUuid) => strict ? TimeUuid.compare(other, key) > 0 : TimeUuid.compare(other, key) >= 0
+    const chunk = findFirst(this.chunks.length, (i) => matches(this.chunks[i].keys[this.chunks[i].keys.length - 1]))
+    if (chunk === this.chunks.length) {
+      return { chunk, index: 0 }
+    }
+    const keys = this.chunks[chunk].keys
+    return { chunk, index: findFirst(keys.length, (i) => matches(keys[i])) }
+  }
+
+  private next(position: Position): Position {
+    return position.index + 1 < this.chunks[position.chunk].keys.length
+      ? { chunk: position.chunk, index: position.index + 1 }
+      : { chunk: position.chunk + 1, index: 0 }
+  }
+
+  private previous(position: Position): Position | undefined {
+    if (position.index > 0) {
+      return { chunk: position.chunk, index: position.index - 1 }
+    }
+    return position.chunk > 0
+      ? { chunk: position.chunk - 1, index: this.chunks[position.chunk - 1].keys.length - 1 }
+      : undefined
+  }
+}
+
+// Helper functions
+/**
+ * Returns the first index in [0, length) for which the predicate holds, or length when none does, the predicate being
+ * false then true along the indexes.
+ */
+function findFirst(length: number, predicate: (index: number) => boolean): number {
+  let low = 0
+  let high = length
+  while (low < high) {
+    const middle = (low + high) >>> 1
+    if (predicate(middle)) {
+      high = middle
+    } else {
+      low = middle + 1
+    }
+  }
+  return low
+}
+
+/**
+ * Returns the arguments of <code>search()</code> that find the first entry of a scan from the start bound, or the
+ * first entry past a scan to the end bound.
+ */
+function getSearchBound(value: TimeUuid | Date, start: boolean, inclusive: boolean): [TimeUuid, boolean] {
+  const strict = start ? !inclusive : inclusive
+  if (value instanceof TimeUuid) {
+    return [value, strict]
+  }
+  // A date bound covers its whole millisecond, from its smallest TimeUuid to its biggest
+  const { min, max } = TimeUuid.range(value, value)
+  return [start === inclusive ? min : max, strict]
+}
+
+function isBefore(a: Position, b: Position): boolean {
+  return a.chunk < b.chunk || (a.chunk === b.chunk && a.index < b.index)
+}
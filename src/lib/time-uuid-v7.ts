@@ -0,0 +1,292 @@
+import type { Buffer } from "node:buffer"
+
+import { compareBytes, getDataView, toBuffer } from "./bytes.ts"
+import { type Clock, SystemClock } from "./clock.ts"
+import { InvalidUuidFormatError } from "./errors.ts"
+import { divideRounding, parseISOString } from "./iso-date.ts"
+import { CryptoRandom, type RandomSource } from "./random.ts"
+import { Uuid } from "./uuid.ts"
+
+/**
+ * Largest value of the 12-bit counter stored in the rand_a field
+ * @const
+ * @private
+ */
+const _maxCounter = 0xfff
+/**
+ * The timestamp of a v7 uuid has 48 bits
+ * @const
+ * @private
+ */
+const _maxTime = 0xffffffffffff
+/**
+ * 10,000 ticks of 100 nanoseconds in a millisecond, the unit of the clocks returning a bigint
+ * @const
+ * @private
+ */
+const _ticksInMs = 10000n
+
+/**
+ * Options of a TimeUuidV7Generator
+ */
+export interface TimeUuidV7GeneratorOptions {
+  /**
+   * The source of the current time, defaults to <code>Date.now()</code>.
+   */
+  clock?: Clock
+  /**
+   * The source of the random bits, defaults to <code>crypto.getRandomValues()</code>.
+   */
+  random?: RandomSource
+}
+
+/**
+ * Represents an immutable version 7 universally unique identifier (UUID) as described in RFC 9562.
+ * The first 48 bits hold the milliseconds since the unix epoch, so the byte and string order of the values is also
+ * their time order.
+ * <p>
+ *   Values generated with <code>now()</code> are monotonic: within the same millisecond the 12-bit rand_a field is used
+ *   as a counter, and when that counter is exhausted the next millisecond is borrowed.
+ * </p>
+ * <p>Usage: <code>TimeUuidV7.now()</code></p>
+ */
+export class TimeUuidV7 extends Uuid {
+  /**
+   * Creates a new instance of TimeUuidV7.
+   * @param value The date or the 16 bytes for the instance, if not provided, it will use the current Date.
+   */
+  constructor(value?: Date | Uint8Array) {
+    let bytes: Uint8Array
+    if (value instanceof Uint8Array) {
+      if (value.length !== 16) {
+        throw new InvalidUuidFormatError("Buffer for v7 uuid not valid", value)
+      }
+      bytes = value
+    } else {
+      bytes = TimeUuidV7Generator.getDefault().createBuffer(value)
+    }
+    super(bytes)
+  }
+
+  /**
+   * Creates a new instance of TimeUuidV7 based on the date provided.
+   * @param {Date} [date] The date to create the TimeUuidV7 from, if not provided, it will use the current Date.
+   * @throws {RangeError} When the date is before 1970 or doesn't fit in the 48-bit timestamp
+   */
+  static fromDate(date?: Date): TimeUuidV7 {
+    return TimeUuidV7Generator.getDefault().fromDate(date)
+  }
+
+  /**
+   * Creates a new instance of TimeUuidV7 based on the string provided.
+   * @param {string} value The string to create the TimeUuidV7 from.
+   */
+  static override fromString(value: string): TimeUuidV7 {
+    return new TimeUuidV7(Uuid.fromString(value).getBytes())
+  }
+
+  /**
+   * Returns the smallest possible type 7 uuid with the provided Date, or with an ISO 8601 date with an offset, whose
+   * digits below the millisecond are dropped.
+   * @throws {RangeError} When the ISO 8601 date is not valid, or the date is before 1970 or doesn't fit in the 48-bit
+   * timestamp
+   */
+  static min(date: Date | string): TimeUuidV7 {
+    return new TimeUuidV7(createBytes(getTime(date), 0, new Uint8Array(8)))
+  }
+
+  /**
+   * Returns the biggest possible type 7 uuid with the provided Date, or with an ISO 8601 date with an offset, whose
+   * digits below the millisecond are dropped.
+   * @throws {RangeError} When the ISO 8601 date is not valid, or the date is before 1970 or doesn't fit in the 48-bit
+   * timestamp
+   */
+  static max(date: Date | string): TimeUuidV7 {
+    return new TimeUuidV7(createBytes(getTime(date), _maxCounter, new Uint8Array(8).fill(0xff)))
+  }
+
+  /**
+   * Returns the current v7 uuid, guaranteed to be greater than the previous one returned by this method.
+   */
+  static now(): TimeUuidV7 {
+    return TimeUuidV7Generator.getDefault().now()
+  }
+
+  /**
+   * Sorts two TimeUuidV7 instances in ascending order.
+   * @param {TimeUuidV7} a - The first TimeUuidV7 instance.
+   * @param {TimeUuidV7} b - The second TimeUuidV7 instance.
+   * @returns {number} - A negative number if a is before b, a positive number if a is after b, or 0 if they are equal.
+   */
+  static sortAscending(a: TimeUuidV7, b: TimeUuidV7): number {
+    return compareBytes(a.bytes, b.bytes)
+  }
+
+  /**
+   * Sorts two TimeUuidV7 instances in descending order
+   * @param {TimeUuidV7} a - The first TimeUuidV7 instance.
+   * @param {TimeUuidV7} b - The second TimeUuidV7 instance.
+   * @returns {number} - A negative number if a is after b, a positive number if a is before b, or 0 if they are equal.
+   */
+  static sortDescending(a: TimeUuidV7, b: TimeUuidV7): number {
+    return TimeUuidV7.sortAscending(b, a)
+  }
+
+  /**
+   * Returns the date of the uuid.
+   */
+  getDate(): Date {
+    const view = getDataView(this.bytes)
+    return new Date(view.getUint16(0) * 0x100000000 + view.getUint32(2))
+  }
+
+  /**
+   * Returns true if this TimeUuidV7 sorts before the other TimeUuidV7, comparing the timestamp and then the counter and
+   * random bits.
+   * @param other The TimeUuidV7 to compare against
+   */
+  isBefore(other: TimeUuidV7): boolean {
+    return TimeUuidV7.sortAscending(this, other) < 0
+  }
+
+  /**
+   * Returns true if this TimeUuidV7 sorts after the other TimeUuidV7, comparing the timestamp and then the counter and
+   * random bits.
+   * @param other The TimeUuidV7 to compare against
+   */
+  isAfter(other: TimeUuidV7): boolean {
+    return TimeUuidV7.sortAscending(this, other) > 0
+  }
+}
+
+Uuid.registerVersion(7, (bytes) => new TimeUuidV7(bytes))
+
+/**
+ * Generates version 7 uuids, owning the counter that keeps the values of <code>now()</code> monotonic and the sources
+ * of the time and random bits, so tests can use a FakeClock and a SeededRandom.
+ * The static methods of TimeUuidV7 use a process-wide default generator.
+ * <p>Usage: <code>new TimeUuidV7Generator({ clock: new FakeClock(0, 1), random: new SeededRandom(42) }).now()</code></p>
+ */
+export class TimeUuidV7Generator {
+  private static defaultGenerator = new TimeUuidV7Generator()
+
+  /**
+   * Counter used to generate monotonic values within the same millisecond
+   */
+  private counter = 0
+  /**
+   * Last timestamp used by now(), so that the counter can be reset or the time borrowed
+   */
+  private lastTime = 0
+  private readonly clock: Clock
+  private readonly random: RandomSource
+
+  /**
+   * Creates a new generator with its own counter.
+   * @param options The time and random sources of the generator.
+   */
+  constructor(options: TimeUuidV7GeneratorOptions = {}) {
+    this.clock = options.clock ?? new SystemClock()
+    this.random = options.random ?? new CryptoRandom()
+  }
+
+  /**
+   * Returns the generator used by the static methods of TimeUuidV7.
+   */
+  static getDefault(): TimeUuidV7Generator {
+    return TimeUuidV7Generator.defaultGenerator
+  }
+
+  /**
+   * Replaces the generator used by the static methods of TimeUuidV7.
+   * @param generator The generator to use from now on.
+   */
+  static setDefault(generator: TimeUuidV7Generator): void {
+    TimeUuidV7Generator.defaultGenerator = generator
+  }
+
+  /**
+   * Returns the current v7 uuid, strictly greater than the previous one returned by this generator.
+   */
+  now(): TimeUuidV7 {
+    return this.fromDate()
+  }
+
+  /**
+   * Creates a new instance of TimeUuidV7 based on the date provided.
+   * @param {Date} [date] The date of the uuid, if not provided, it will use the current time of the clock.
+   * @throws {RangeError} When the date is before 1970 or doesn't fit in the 48-bit timestamp
+   */
+  fromDate(date?: Date): TimeUuidV7 {
+    return new TimeUuidV7(this.createBuffer(date))
+  }
+
+  /**
+   * Generates the bytes of a version 7 uuid, updating the counter of this generator when no date is provided.
+   * @param {Date} [date] The date of the uuid, if not provided, it will use the current time of the clock.
+   * @throws {RangeError} When the date is before 1970 or doesn't fit in the 48-bit timestamp
+   */
+  createBuffer(date?: Date): Buffer {
+    if (date !== undefined) {
+      const counter = getDataView(this.random.getRandomBytes(2)).getUint16(0) & _maxCounter
+      return toBuffer(createBytes(date.getTime(), counter, this.random.getRandomBytes(8)))
+    }
+    const time = this.getClockTime()
+    if (time > this.lastTime) {
+      this.lastTime = time
+      this.counter = 0
+    } else {
+      this.counter++
+      if (this.counter > _maxCounter) {
+        // Borrow the next millisecond, the clock will eventually catch up
+        this.lastTime++
+        this.counter = 0
+      }
+    }
+    return toBuffer(createBytes(this.lastTime, this.counter, this.random.getRandomBytes(8)))
+  }
+
+  /**
+   * Returns the milliseconds of the clock, which may provide 100-nanosecond units as a bigint.
+   */
+  private getClockTime(): number {
+    const now = this.clock.now()
+    if (typeof now === "bigint") {
+      const remainder = ((now % _ticksInMs) + _ticksInMs) % _ticksInMs
+      return Number((now - remainder) / _ticksInMs)
+    }
+    return now
+  }
+}
+
+// Helper functions
+/**
+ * Returns the milliseconds since the unix epoch of a Date or of an ISO 8601 date with an offset.
+ */
+function getTime(date: Date | string): number {
+  return typeof date === "string"
+    ? Number(divideRounding(parseISOString(date, "floor"), _ticksInMs, "floor"))
+    : date.getTime()
+}
+
+function createBytes(time: number, counter: number, random: Uint8Array): Uint8Array {
+  if (!Number.isInteger(time) || time < 0 || time > _maxTime) {
+    throw new RangeError("The date of a v7 uuid must be between 1970-01-01 and the end of its 48-bit timestamp")
+  }
+  const bytes = new Uint8Array(16)
+  const view = getDataView(bytes)
+  view.setUint16(0, Math.floor(time / 0x100000000))
+  view.setUint32(2, time >>> 0)
+  view.setUint16(6, counter & _maxCounter)
+  bytes.set(random.subarray(0, 8), 8)
+
+  // Version Byte: Unix Epoch time-based
+  bytes[6] = bytes[6] & 0x0f
+  bytes[6] = bytes[6] | 0x70
+
+  // IETF Variant Byte
+  bytes[8] = bytes[8] & 0x3f
+  bytes[8] = bytes[8] | 0x80
+
+  return bytes
+}
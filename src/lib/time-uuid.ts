@@ -15,11 +15,26 @@
  */
 "use strict"
 
-import * as crypto from "node:crypto"
-import Long from "long"
-import { Buffer } from "node:buffer"
+import type { Buffer } from "node:buffer"
 
-import { Uuid } from "./uuid.ts"
+import { compareBytes, fromAscii, fromHex, getDataView, toAscii, toBuffer, toHex } from "./bytes.ts"
+import { type Clock, SystemClock } from "./clock.ts"
+import { type ClockState, type ClockStateStore, MemoryClockStateStore } from "./clock-state-store.ts"
+import { decodeBase32, encodeBase32 } from "./encoding.ts"
+import { InvalidUuidFormatError, InvalidUuidVersionError } from "./errors.ts"
+import { divideRounding, parseISOString } from "./iso-date.ts"
+import { NodeId } from "./node-id.ts"
+import { PooledRandom, type RandomSource } from "./random.ts"
+import { Uuid, type UuidVariant } from "./uuid.ts"
+
+/**
+ * The part of the Temporal API used to create instants, which not every runtime provides yet
+ */
+interface TemporalNamespace {
+  Instant: {
+    fromEpochNanoseconds(epochNanoseconds: bigint): NanosecondInstant
+  }
+}
 
 /**
  * Date with ticks
@@ -37,6 +52,114 @@ interface TimeWithTicks {
   ticks: number
 }
 
+/**
+ * Options to read an existing TimeUuid
+ */
+export interface TimeUuidParseOptions {
+  /**
+   * Rejects uuids that are not version 1 with an InvalidUuidVersionError, defaults to false.
+   */
+  strict?: boolean
+}
+
+/**
+ * Bounds of the TimeUuid values within a time range, to be used inclusively, for example in
+ * <code>WHERE id >= ? AND id <= ?</code>
+ */
+export interface TimeUuidRange {
+  /**
+   * The smallest TimeUuid of the range.
+   */
+  min: TimeUuid
+  /**
+   * The biggest TimeUuid of the range.
+   */
+  max: TimeUuid
+}
+
+/**
+ * Fields of a TimeUuid, as plain values for logs and error reports
+ */
+export interface TimeUuidDescription {
+  /**
+   * The canonical string representation.
+   */
+  uuid: string
+  /**
+   * The version, 1 unless the uuid was read without the strict option.
+   */
+  version: number
+  /**
+   * The variant, rfc4122 for the uuids generated by this library.
+   */
+  variant: UuidVariant
+  /**
+   * The date in ISO 8601 format with 100-nanosecond precision, such as <code>2015-01-10T05:05:05.1234567Z</code>.
+   */
+  timestamp: string
+  /**
+   * The 100-nanosecond units within the millisecond.
+   */
+  ticks: number
+  /**
+   * The 14-bit clock sequence.
+   */
+  clockSequence: number
+  /**
+   * The node id as 12 hex characters.
+   */
+  nodeIdHex: string
+  /**
+   * The node id as 6 ascii characters, with the non-printable ones replaced by a dot.
+   */
+  nodeIdAscii: string
+}
+
+/**
+ * Options of <code>TimeUuid.range()</code>
+ */
+export interface TimeUuidRangeOptions {
+  /**
+   * Whether the milliseconds of the start and end dates are part of the range, defaults to true.
+   */
+  inclusive?: boolean
+}
+
+/**
+ * How nanoseconds are rounded to the 100-nanosecond resolution of a TimeUuid, with the names of the Temporal
+ * rounding modes: towards the past, towards the future, or to the nearest with halves away from the unix epoch
+ */
+export type TimeUuidRounding = "floor" | "ceil" | "halfExpand"
+
+/**
+ * Options to create a TimeUuid from nanoseconds
+ */
+export interface TimeUuidNanosecondsOptions {
+  /**
+   * A 6-length Uint8Array or string of 6 ascii characters representing the node identifier, ie: 'host01'.
+   */
+  nodeId?: string | Uint8Array
+  /**
+   * A 2-length Uint8Array or string of 6 ascii characters representing the clock identifier.
+   */
+  clockId?: string | Uint8Array
+  /**
+   * How the nanoseconds below the 100-nanosecond resolution are rounded, defaults to <code>"floor"</code> which drops
+   * them for dates after 1970 and never gives a later time than the input.
+   */
+  rounding?: TimeUuidRounding
+}
+
+/**
+ * An instant with nanosecond precision, such as a <code>Temporal.Instant</code>
+ */
+export interface NanosecondInstant {
+  /**
+   * The nanoseconds since the unix epoch, negative for dates before 1970.
+   */
+  readonly epochNanoseconds: bigint
+}
+
 /** @module types */
 /**
  * Oct 15, 1582 in milliseconds since unix epoch
@@ -50,46 +173,76 @@ const _unixToGregorian = 12219292800000
  * @private
  */
 const _ticksInMs = 10000
-
-const minNodeId: Buffer = Buffer.from("808080808080", "hex")
-const minClockId: Buffer = Buffer.from("8080", "hex")
-const maxNodeId: Buffer = Buffer.from("7f7f7f7f7f7f", "hex")
-const maxClockId: Buffer = Buffer.from("7f7f", "hex")
-
 /**
- * Counter used to generate up to 10000 different timeuuid values with the same Date
+ * 100-nanosecond intervals between Oct 15, 1582 and the unix epoch
+ * @const
+ * @private
+ */
+const _unixToGregorianTicks = BigInt(_unixToGregorian) * BigInt(_ticksInMs)
+/**
+ * The timestamp of a uuid has 60 bits
+ * @const
+ * @private
+ */
+const _maxTimestamp = (1n << 60n) - 1n
+/**
+ * 2^32 ticks are 429496 milliseconds and 7296 ticks
+ * @const
+ * @private
+ */
+const _msInTwoPow32Ticks = 429496
+const _ticksInTwoPow32Ticks = 7296
+/**
+ * Indexes of the timestamp bytes of a v1 uuid, from the most significant: time_high, time_mid and time_low
+ * @const
+ * @private
+ */
+const _timestampBytes = [6, 7, 4, 5, 0, 1, 2, 3]
+/**
+ * Indexes of the timestamp characters of the canonical representation of a v1 uuid, from the most significant
+ * @const
  * @private
  */
-let _ticks = 0
+const _timestampChars = [14, 15, 16, 17, 9, 10, 11, 12, 0, 1, 2, 3, 4, 5, 6, 7]
 /**
- * Counter used to generate ticks for the current time
+ * Indexes of the clock id and node id bytes in the canonical representation of a v1 uuid
+ * @const
  * @private
  */
-let _ticksForCurrentTime = 0
+const _clockAndNodeChars = [19, 21, 24, 26, 28, 30, 32, 34]
+
 /**
- * Remember the last time when a ticks for the current time so that it can be reset
+ * Random node identifier shared by the generators when neither they nor <code>NodeId.setDefault()</code> provide one,
+ * created on first use
  * @private
  */
-let _lastTimestamp = 0
+let _processNodeId: Uint8Array | undefined
+
+const minNodeId: Uint8Array = fromHex("808080808080")
+const minClockId: Uint8Array = fromHex("8080")
+const maxNodeId: Uint8Array = fromHex("7f7f7f7f7f7f")
+const maxClockId: Uint8Array = fromHex("7f7f")
+const minV6NodeId: Uint8Array = fromHex("000000000000")
+const minV6ClockId: Uint8Array = fromHex("0000")
+const maxV6NodeId: Uint8Array = fromHex("ffffffffffff")
+const maxV6ClockId: Uint8Array = fromHex("ffff")
 
 /**
  * Creates a new instance of Uuid based on the parameters provided according to rfc4122.
- * If any of the arguments is not provided, it will be randomly generated, except for the date that will use the current
- * date.
+ * If any of the arguments is not provided, the default generator provides it, the date being the current date.
  * <p>
- *   Note that when nodeId and/or clockId portions are not provided, the constructor will generate them using
- *   <code>crypto.randomBytes()</code>. As it's possible that <code>crypto.randomBytes()</code> might block, it's
- *   recommended that you use the callback-based version of the static methods <code>fromDate()</code> or
- *   <code>now()</code> in that case.
+ *   Note that when nodeId and/or clockId portions are not provided, the constructor uses the ones of the default
+ *   generator: a random node identifier with the multicast bit set, created once, and a clock sequence kept in its
+ *   state store.
  * </p>
  * @class
  * @classdesc Represents an immutable version 1 universally unique identifier (UUID). A UUID represents a 128-bit value.
  * <p>Usage: <code>TimeUuid.now()</code></p>
- * @param {Date|Buffer} [value] The datetime or buffer for the instance, if not provided, it will use the current Date.
+ * @param {Date|Uint8Array} [value] The datetime or 16 bytes for the instance, if not provided, it will use the current Date.
  * @param {Number} [ticks] A number from 0 to 10000 representing the 100-nanoseconds units for this instance to fill in the information not available in the Date,
  * as Ecmascript Dates have only milliseconds precision.
- * @param {String|Buffer} [nodeId] A 6-length Buffer or string of 6 ascii characters representing the node identifier, ie: 'host01'.
- * @param {String|Buffer} [clockId] A 2-length Buffer or string of 6 ascii characters representing the clock identifier.
+ * @param {String|Uint8Array} [nodeId] A 6-length Uint8Array or string of 6 ascii characters representing the node identifier, ie: 'host01'.
+ * @param {String|Uint8Array} [clockId] A 2-length Uint8Array or string of 6 ascii characters representing the clock identifier.
  * @constructor
  */
 export class TimeUuid extends Uuid {
@@ -97,21 +250,21 @@ export class TimeUuid extends Uuid {
    * Creates a new instance of TimeUuid based on the parameters provided according to rfc4122.
    */
   constructor(
-    value?: Date | Buffer,
+    value?: Date | Uint8Array,
     ticks?: number,
-    nodeId?: string | Buffer,
-    clockId?: string | Buffer,
+    nodeId?: string | Uint8Array,
+    clockId?: string | Uint8Array,
   ) {
-    let buffer: Buffer
-    if (value instanceof Buffer) {
+    let bytes: Uint8Array
+    if (value instanceof Uint8Array) {
       if (value.length !== 16) {
-        throw new Error("Buffer for v1 uuid not valid")
+        throw new InvalidUuidFormatError("Buffer for v1 uuid not valid", value)
       }
-      buffer = value
+      bytes = value
     } else {
-      buffer = generateBuffer(value, ticks, nodeId, clockId)
+      bytes = TimeUuidGenerator.getDefault().createBuffer(value, ticks, nodeId, clockId)
     }
-    super(buffer)
+    super(bytes)
   }
 
   /**
@@ -119,63 +272,232 @@ export class TimeUuid extends Uuid {
    * @param {Date} date The date to create the TimeUuid from.
    * @param {Number} [ticks] A number from 0 to 10000 representing the 100-nanoseconds units for this instance to fill in the information not available in the Date,
    * as Ecmascript Dates have only milliseconds precision.
-   * @param {String|Buffer} [nodeId] A 6-length Buffer or string of 6 ascii characters representing the node identifier, ie: 'host01'.
-   * @param {String|Buffer} [clockId] A 2-length Buffer or string of 6 ascii characters representing the clock identifier.
+   * @param {String|Uint8Array} [nodeId] A 6-length Uint8Array or string of 6 ascii characters representing the node identifier, ie: 'host01'.
+   * @param {String|Uint8Array} [clockId] A 2-length Uint8Array or string of 6 ascii characters representing the clock identifier.
    */
   static fromDate(
     date?: Date,
     ticks?: number,
-    nodeId?: string | Buffer,
-    clockId?: string | Buffer,
+    nodeId?: string | Uint8Array,
+    clockId?: string | Uint8Array,
+  ): TimeUuid {
+    return TimeUuidGenerator.getDefault().fromDate(date, ticks, nodeId, clockId)
+  }
+
+  /**
+   * Creates a new instance of TimeUuid based on the 60-bit timestamp provided.
+   * The default generator builds the bytes without its clock state when a clock identifier is given, and otherwise
+   * takes the next clock sequence after its own, to keep the uuids of the same timestamp unique, see
+   * <code>TimeUuidGenerator.fromTimestamp()</code>.
+   * @param {bigint} timestamp The number of 100-nanosecond intervals since the Gregorian epoch, Oct 15, 1582.
+   * @param {String|Uint8Array} [nodeId] A 6-length Uint8Array or string of 6 ascii characters representing the node identifier, ie: 'host01'.
+   * @param {String|Uint8Array} [clockId] A 2-length Uint8Array or string of 6 ascii characters representing the clock identifier.
+   * @throws {RangeError} When the timestamp doesn't fit in 60 bits
+   */
+  static fromTimestamp(
+    timestamp: bigint,
+    nodeId?: string | Uint8Array,
+    clockId?: string | Uint8Array,
   ): TimeUuid {
-    return new TimeUuid(date, ticks, nodeId, clockId)
+    return TimeUuidGenerator.getDefault().fromTimestamp(timestamp, nodeId, clockId)
+  }
+
+  /**
+   * Creates a new instance of TimeUuid from nanoseconds since the unix epoch, such as the timestamps of Kafka records
+   * or OpenTelemetry spans, filling in the ticks that a Date can't hold.
+   * <code>process.hrtime.bigint()</code> counts from an arbitrary point and must be offset to the unix epoch first.
+   * @param {bigint} nanoseconds The nanoseconds since the unix epoch, negative for dates before 1970.
+   * @param {TimeUuidNanosecondsOptions} [options] The node and clock identifiers, and the rounding of the nanoseconds.
+   * @throws {RangeError} When the rounded timestamp doesn't fit in 60 bits
+   */
+  static fromEpochNanoseconds(nanoseconds: bigint, options: TimeUuidNanosecondsOptions = {}): TimeUuid {
+    const ticks = divideRounding(nanoseconds, 100n, options.rounding ?? "floor")
+    return TimeUuid.fromTimestamp(ticks + _unixToGregorianTicks, options.nodeId, options.clockId)
+  }
+
+  /**
+   * Creates a new instance of TimeUuid from a <code>Temporal.Instant</code>, or any value with its
+   * <code>epochNanoseconds</code>, see <code>fromEpochNanoseconds()</code>.
+   * @param {NanosecondInstant} instant The instant.
+   * @param {TimeUuidNanosecondsOptions} [options] The node and clock identifiers, and the rounding of the nanoseconds.
+   * @throws {RangeError} When the rounded timestamp doesn't fit in 60 bits
+   */
+  static fromInstant(instant: NanosecondInstant, options?: TimeUuidNanosecondsOptions): TimeUuid {
+    return TimeUuid.fromEpochNanoseconds(instant.epochNanoseconds, options)
   }
 
   /**
    * Creates a new instance of TimeUuid based on the string provided.
    * @param {string} value The string to create the TimeUuid from.
+   * @param {TimeUuidParseOptions} [options] Use <code>{ strict: true }</code> to reject uuids that are not version 1.
+   */
+  static override fromString(value: string, options?: TimeUuidParseOptions): TimeUuid {
+    return TimeUuid.fromBuffer(Uuid.fromString(value).getBytes(), options)
+  }
+
+  /**
+   * Creates a new instance of TimeUuid based on the 16 bytes provided.
+   * @param {Uint8Array} bytes The 16-length Uint8Array or Buffer.
+   * @param {TimeUuidParseOptions} [options] Use <code>{ strict: true }</code> to reject uuids that are not version 1.
    */
-  static override fromString(value: string): TimeUuid {
-    return new TimeUuid(Uuid.fromString(value).getBuffer())
+  static fromBuffer(bytes: Uint8Array, options: TimeUuidParseOptions = {}): TimeUuid {
+    const value = new TimeUuid(bytes)
+    if (options.strict && value.getVersion() !== 1) {
+      throw new InvalidUuidVersionError(1, value.getVersion())
+    }
+    return value
+  }
+
+  /**
+   * Creates a new instance of TimeUuid from an ISO 8601 date with an offset, such as
+   * <code>2025-02-21T10:00:00.1234567Z</code> or <code>2025-02-21T11:00:00.123+01:00</code>, in any fractional
+   * precision. The digits after the milliseconds fill in the ticks.
+   * @param {String} value The ISO 8601 date.
+   * @param {TimeUuidNanosecondsOptions} [options] The node and clock identifiers, and the rounding of the digits below
+   * 100 nanoseconds.
+   * @throws {RangeError} When the value is not a valid ISO 8601 date with an offset, or doesn't fit in 60 bits
+   */
+  static fromISOString(value: string, options: TimeUuidNanosecondsOptions = {}): TimeUuid {
+    const timestamp = parseISOString(value, options.rounding ?? "floor") + _unixToGregorianTicks
+    return TimeUuid.fromTimestamp(timestamp, options.nodeId, options.clockId)
   }
 
   /**
-   * Returns the smaller possible type 1 uuid with the provided Date.
+   * Returns the smaller possible type 1 uuid with the provided Date, or with the exact ticks of an ISO 8601 date as
+   * read by <code>fromISOString()</code>, which holds its own ticks.
+   * @throws {RangeError} When the ISO 8601 date is not valid, or is given with ticks
    */
-  static min(date: Date, ticks?: number): TimeUuid {
+  static min(date: Date, ticks?: number): TimeUuid
+  static min(date: string): TimeUuid
+  static min(date: Date | string, ticks?: number): TimeUuid {
+    if (typeof date === "string") {
+      const timeWithTicks = parseBound(date, ticks)
+      return new TimeUuid(new Date(timeWithTicks.time), timeWithTicks.ticks, minNodeId, minClockId)
+    }
     return new TimeUuid(date, ticks, minNodeId, minClockId)
   }
 
   /**
-   * Returns the biggest possible type 1 uuid with the provided Date.
+   * Returns the biggest possible type 1 uuid with the provided Date, or with the exact ticks of an ISO 8601 date as
+   * read by <code>fromISOString()</code>, which holds its own ticks.
+   * @throws {RangeError} When the ISO 8601 date is not valid, or is given with ticks
    */
-  static max(date: Date, ticks?: number): TimeUuid {
+  static max(date: Date, ticks?: number): TimeUuid
+  static max(date: string): TimeUuid
+  static max(date: Date | string, ticks?: number): TimeUuid {
+    if (typeof date === "string") {
+      const timeWithTicks = parseBound(date, ticks)
+      return new TimeUuid(new Date(timeWithTicks.time), timeWithTicks.ticks, maxNodeId, maxClockId)
+    }
     return new TimeUuid(date, ticks, maxNodeId, maxClockId)
   }
 
+  /**
+   * Returns the bounds of the TimeUuid values between two dates, with the same order as <code>TimeUuid.compare()</code>.
+   * The bounds are always inclusive, when <code>inclusive</code> is false they exclude the start and end milliseconds.
+   * @param {Date} start The start of the range.
+   * @param {Date} end The end of the range.
+   * @param {TimeUuidRangeOptions} [options] Use <code>{ inclusive: false }</code> to exclude the start and end dates.
+   * @throws {RangeError} When the start date is after the end date
+   */
+  static range(start: Date, end: Date, options: TimeUuidRangeOptions = {}): TimeUuidRange {
+    const offset = options.inclusive === false ? 1 : 0
+    const from = start.getTime() + offset
+    const to = end.getTime() - offset
+    if (!(from <= to)) {
+      throw new RangeError("The start of the range must be before its end")
+    }
+    return {
+      min: TimeUuid.min(new Date(from), 0),
+      max: TimeUuid.max(new Date(to), _ticksInMs - 1),
+    }
+  }
+
+  /**
+   * Generates strictly increasing timeuuids for a single node with the default generator, see
+   * <code>TimeUuidGenerator.generateBatch()</code>.
+   * @param {Number} count The number of uuids.
+   * @param {TimeUuidBatchOptions} [options] The node and clock identifiers, and the dates to spread the batch between.
+   */
+  static generateBatch(count: number, options?: TimeUuidBatchOptions): TimeUuid[] {
+    return TimeUuidGenerator.getDefault().generateBatch(count, options)
+  }
+
   /**
    * Returns the current timeuuid.
    */
   static now(
-    nodeId?: string | Buffer,
-    clockId?: string | Buffer,
+    nodeId?: string | Uint8Array,
+    clockId?: string | Uint8Array,
   ): TimeUuid {
-    return TimeUuid.fromDate(undefined, undefined, nodeId, clockId)
+    return TimeUuidGenerator.getDefault().now(nodeId, clockId)
+  }
+
+  /**
+   * Compares two TimeUuid instances with the same order as the Cassandra timeuuid type: by timestamp, and then by the
+   * clock id and node id as signed bytes, so <code>min()</code> and <code>max()</code> are the boundaries of a date.
+   * @param {TimeUuid} a - The first TimeUuid instance.
+   * @param {TimeUuid} b - The second TimeUuid instance.
+   * @returns {number} - -1 if a is before b, 1 if a is after b, or 0 if they are equal.
+   */
+  static override compare(a: TimeUuid, b: TimeUuid): number {
+    return TimeUuid.compareBytes(a.bytes, b.bytes)
   }
 
   /**
-   * Sorts two TimeUuid instances in ascending order.
+   * Compares the 16 bytes of two version 1 uuids with the order of <code>TimeUuid.compare()</code>, without creating
+   * any object.
+   * @param {Uint8Array} a - The bytes of the first uuid.
+   * @param {Uint8Array} b - The bytes of the second uuid.
+   * @returns {number} - -1 if a is before b, 1 if a is after b, or 0 if they are equal.
+   */
+  static compareBytes(a: Uint8Array, b: Uint8Array): number {
+    return Math.sign(compareTimestamps(a, b) || compareSignedBytes(a, b, 8))
+  }
+
+  /**
+   * Compares the canonical string representations of two version 1 uuids, in any case, with the order of
+   * <code>TimeUuid.compare()</code>, without creating any object.
+   * @param {string} a - The first uuid, such as <code>"3d555680-9886-11e4-8101-010101010101"</code>.
+   * @param {string} b - The second uuid.
+   * @returns {number} - -1 if a is before b, 1 if a is after b, or 0 if they are equal.
+   * @throws {InvalidUuidFormatError} When a value is not a canonical uuid representation
+   */
+  static compareStrings(a: string, b: string): number {
+    checkCanonicalString(a)
+    checkCanonicalString(b)
+    return Math.sign(compareCanonicalStrings(a, b))
+  }
+
+  /**
+   * Returns the milliseconds since the unix epoch of the 16 bytes of a version 1 uuid, the same value as
+   * <code>getDate().getTime()</code>, without creating any object.
+   * @param {Uint8Array} bytes The bytes of the uuid.
+   */
+  static getTimeFromBytes(bytes: Uint8Array): number {
+    return getUnixTime(readTimestampHigh(bytes), readTimestampLow(bytes))
+  }
+
+  /**
+   * Returns the milliseconds since the unix epoch of the canonical string representation of a version 1 uuid, the
+   * same value as <code>getDate().getTime()</code>, without creating any object.
+   * @param {string} value The uuid, such as <code>"3d555680-9886-11e4-8101-010101010101"</code>.
+   * @throws {InvalidUuidFormatError} When the value is not a canonical uuid representation
+   */
+  static getTimeFromString(value: string): number {
+    checkCanonicalString(value)
+    const high = readHex(value, 15, 18) * 0x10000 + readHex(value, 9, 13)
+    return getUnixTime(high, readHex(value, 0, 8))
+  }
+
+  /**
+   * Sorts two TimeUuid instances in ascending order, the same order as <code>TimeUuid.compare()</code>.
    * @param {TimeUuid} a - The first TimeUuid instance.
    * @param {TimeUuid} b - The second TimeUuid instance.
    * @returns {number} - A negative number if a is before b, a positive number if a is after b, or 0 if they are equal.
    */
   static sortAscending(a: TimeUuid, b: TimeUuid): number {
-    const aPrecision = a.getDatePrecision()
-    const bPrecision = b.getDatePrecision()
-    if (aPrecision.date.getTime() !== bPrecision.date.getTime()) {
-      return aPrecision.date.getTime() - bPrecision.date.getTime()
-    }
-    return aPrecision.ticks - bPrecision.ticks
+    return TimeUuid.compare(a, b)
   }
 
   /**
@@ -192,25 +514,7 @@ export class TimeUuid extends Uuid {
    * Returns the date precision (date and ticks) of the uuid.
    */
   getDatePrecision(): DatePrecision {
-    const timeLow = this.buffer.readUInt32BE(0)
-
-    let timeHigh = 0
-    timeHigh |= (this.buffer[4] & 0xff) << 8
-    timeHigh |= this.buffer[5] & 0xff
-    timeHigh |= (this.buffer[6] & 0x0f) << 24
-    timeHigh |= (this.buffer[7] & 0xff) << 16
-
-    const val = Long.fromBits(timeLow, timeHigh)
-    const ticksInMsLong = Long.fromNumber(_ticksInMs)
-    const ticks = val.modulo(ticksInMsLong)
-    const time = val
-      .div(ticksInMsLong)
-      .subtract(Long.fromNumber(_unixToGregorian))
-
-    return {
-      date: new Date(time.toNumber()),
-      ticks: ticks.toNumber(),
-    }
+    return readDatePrecision(this.bytes)
   }
 
   /**
@@ -220,33 +524,181 @@ export class TimeUuid extends Uuid {
     return this.getDatePrecision().date
   }
 
+  /**
+   * Returns the 60-bit timestamp of the uuid, the number of 100-nanosecond intervals since the Gregorian epoch,
+   * Oct 15, 1582.
+   */
+  getTimestamp(): bigint {
+    return readTimestamp(this.bytes)
+  }
+
+  /**
+   * Returns the timestamp of the uuid as nanoseconds since the unix epoch, negative for dates before 1970.
+   * It is always a multiple of 100, so <code>fromEpochNanoseconds()</code> returns the same timestamp from it.
+   */
+  getEpochNanoseconds(): bigint {
+    return (this.getTimestamp() - _unixToGregorianTicks) * 100n
+  }
+
+  /**
+   * Returns the timestamp of the uuid as nanoseconds since the unix epoch, as <code>getEpochNanoseconds()</code>.
+   */
+  getUnixTimestampNanos(): bigint {
+    return this.getEpochNanoseconds()
+  }
+
+  /**
+   * Returns the timestamp of the uuid as a <code>Temporal.Instant</code>, with its full 100-nanosecond precision.
+   * @throws {Error} When the runtime doesn't provide Temporal
+   */
+  toInstant(): NanosecondInstant {
+    const temporal = (globalThis as { Temporal?: TemporalNamespace }).Temporal
+    if (!temporal) {
+      throw new Error("toInstant() requires Temporal, which is not available in this runtime")
+    }
+    return temporal.Instant.fromEpochNanoseconds(this.getEpochNanoseconds())
+  }
+
   /**
    * Returns the node id of the uuid.
    */
   getNodeId(): Buffer {
-    return this.buffer.subarray(10)
+    return toBuffer(this.bytes.slice(10))
   }
 
   /**
    * Returns the clock id of the uuid.
    */
   getClockId(): Buffer {
-    return this.buffer.subarray(8, 10)
+    return toBuffer(this.bytes.slice(8, 10))
   }
 
   /**
    * Returns the node id of the uuid as a string.
    */
   getNodeIdString(): string {
-    return this.buffer.subarray(10).toString("ascii")
+    return toAscii(this.bytes.subarray(10))
+  }
+
+  /**
+   * Returns the date in ISO 8601 format with the 7 fractional digits of its 100-nanosecond precision, such as
+   * <code>2025-02-21T10:00:00.1234567Z</code>.
+   */
+  toISOString(): string {
+    const { date, ticks } = this.getDatePrecision()
+    return formatTimestamp(date, ticks)
+  }
+
+  /**
+   * Returns the version, variant, timestamp, clock sequence and node id of the uuid as a plain object, for logs and
+   * error reports.
+   */
+  describe(): TimeUuidDescription {
+    const { date, ticks } = this.getDatePrecision()
+    return {
+      uuid: this.toString(),
+      version: this.getVersion(),
+      variant: this.getVariant(),
+      timestamp: formatTimestamp(date, ticks),
+      ticks,
+      clockSequence: ((this.bytes[8] & 0x3f) << 8) | this.bytes[9],
+      nodeIdHex: toHex(this.bytes.subarray(10)),
+      nodeIdAscii: toPrintableAscii(this.bytes.subarray(10)),
+    }
   }
 
   /**
-   * Returns a timeUuid with the same date and clock id but with the ticks decremented by 1.
+   * Returns a timeUuid with the same node id and clock id but with the timestamp decremented by 1 tick.
    */
   getBefore(): TimeUuid {
-    const { date: beforeDate, ticks } = this.getDatePrecision()
-    return TimeUuid.fromDate(beforeDate, ticks - 1, this.getNodeId(), this.getClockId())
+    return this.minus(1n)
+  }
+
+  /**
+   * Returns a timeUuid with the same node id and clock id but with the timestamp incremented by 1 tick.
+   */
+  getAfter(): TimeUuid {
+    return this.plus(1n)
+  }
+
+  /**
+   * Returns a timeUuid with the same node id and clock id, and the duration added to the timestamp.
+   * Only the timestamp of a copy of the bytes is written, without the state of the default generator.
+   * @param duration Whole milliseconds as a number, or 100-nanosecond ticks as a bigint, negative to go back in time.
+   * @throws {RangeError} When the duration is not an integer or the result doesn't fit in the 60-bit timestamp
+   */
+  plus(duration: number | bigint): TimeUuid {
+    const ticks = typeof duration === "bigint" ? duration : BigInt(duration) * BigInt(_ticksInMs)
+    const { time, ticks: remainder } = getTimeWithTicks(this.getTimestamp() + ticks)
+    const bytes = new Uint8Array(this.bytes)
+    writeTime(bytes, time, remainder)
+    // Keep the version of the uuid, which shares its byte with the timestamp
+    bytes[6] = (bytes[6] & 0x0f) | (this.bytes[6] & 0xf0)
+    return new TimeUuid(toBuffer(bytes))
+  }
+
+  /**
+   * Returns a timeUuid with the same node id and clock id, and the duration subtracted from the timestamp.
+   * @param duration Whole milliseconds as a number, or 100-nanosecond ticks as a bigint, negative to go forward in time.
+   * @throws {RangeError} When the duration is not an integer or the result doesn't fit in the 60-bit timestamp
+   */
+  minus(duration: number | bigint): TimeUuid {
+    return this.plus(-duration)
+  }
+
+  /**
+   * Returns the time from b to a in 100-nanosecond ticks, negative when a is before b.
+   * @param {TimeUuid} a - The first TimeUuid instance.
+   * @param {TimeUuid} b - The second TimeUuid instance.
+   */
+  static diff(a: TimeUuid, b: TimeUuid): bigint {
+    return a.getTimestamp() - b.getTimestamp()
+  }
+
+  /**
+   * Compares this uuid with another one, with the order of <code>TimeUuid.compare()</code> when the other one is also a
+   * TimeUuid, and the order of <code>Uuid.compare()</code> otherwise.
+   * @param other The uuid to compare against
+   * @returns -1 if this uuid is before the other, 1 if it is after, or 0 if they are equal.
+   */
+  override compareTo(other: Uuid): number {
+    return other instanceof TimeUuid ? TimeUuid.compare(this, other) : super.compareTo(other)
+  }
+
+  /**
+   * Returns the version 6 representation of this uuid, with the same timestamp, clock id and node id.
+   */
+  toV6(): TimeUuidV6 {
+    return new TimeUuidV6(v1ToV6(this.bytes))
+  }
+
+  /**
+   * Returns a 26 characters Crockford base32 key that sorts as strings in the order of <code>TimeUuid.compare()</code>,
+   * for stores ordered by string such as S3 prefixes or DynamoDB sort keys.
+   * <p>
+   *   The key holds the version and the 60-bit timestamp first, then the clock id and node id with the sign bit of
+   *   each byte flipped, so <code>TimeUuid.fromSortableKey()</code> returns the exact same uuid.
+   * </p>
+   */
+  toSortableKey(): string {
+    return encodeBase32(toSortableBytes(this.bytes))
+  }
+
+  /**
+   * Creates a new instance of TimeUuid from the key of <code>toSortableKey()</code>, in any case.
+   * @param {String} key The sortable key.
+   * @throws {InvalidUuidFormatError} When the key is malformed or doesn't have 26 characters
+   */
+  static fromSortableKey(key: string): TimeUuid {
+    return new TimeUuid(fromSortableBytes(decodeBase32(key)))
+  }
+
+  /**
+   * Creates a new instance of TimeUuid from a version 6 uuid, with the same timestamp, clock id and node id.
+   * @param {TimeUuidV6} value The v6 uuid to convert.
+   */
+  static fromV6(value: TimeUuidV6): TimeUuid {
+    return new TimeUuid(v6ToV1(value.getBytes()))
   }
 
   /**
@@ -254,9 +706,7 @@ export class TimeUuid extends Uuid {
    * @param other The TimeUuid to compare against
    */
   isBefore(other: TimeUuid): boolean {
-    return this.getDatePrecision().date.getTime() < other.getDatePrecision().date.getTime() ||
-      (this.getDatePrecision().date.getTime() === other.getDatePrecision().date.getTime() &&
-        this.getDatePrecision().ticks < other.getDatePrecision().ticks)
+    return compareTimestamps(this.bytes, other.bytes) < 0
   }
 
   /**
@@ -264,104 +714,932 @@ export class TimeUuid extends Uuid {
    * @param other The TimeUuid to compare against
    */
   isAfter(other: TimeUuid): boolean {
-    return this.getDatePrecision().date.getTime() > other.getDatePrecision().date.getTime() ||
-      (this.getDatePrecision().date.getTime() === other.getDatePrecision().date.getTime() &&
-        this.getDatePrecision().ticks > other.getDatePrecision().ticks)
+    return compareTimestamps(this.bytes, other.bytes) > 0
   }
 }
 
-// Helper functions
-function writeTime(buffer: Buffer, time: number, ticks: number): void {
-  const val = Long
-    .fromNumber(time + _unixToGregorian)
-    .multiply(Long.fromNumber(10000))
-    .add(Long.fromNumber(ticks))
-  const timeHigh = val.getHighBitsUnsigned()
-  buffer.writeUInt32BE(val.getLowBitsUnsigned(), 0)
-  buffer.writeUInt16BE(timeHigh & 0xffff, 4)
-  buffer.writeUInt16BE(timeHigh >>> 16 & 0xffff, 6)
-}
-
-function getClockId(clockId?: string | Buffer): Buffer {
-  let buffer = clockId
-  if (typeof clockId === "string") {
-    buffer = Buffer.from(clockId, "ascii")
-  }
-  if (!(buffer instanceof Buffer)) {
-    buffer = getRandomBytes(2)
-  } else if (buffer.length !== 2) {
-    throw new Error("Clock identifier must have 2 bytes")
+/**
+ * Represents an immutable version 6 universally unique identifier (UUID) as described in RFC 9562.
+ * It holds the same fields as a version 1 uuid, but with the timestamp stored most significant bits first, so the
+ * byte and string order of the values is also their time order.
+ * <p>Usage: <code>TimeUuidV6.now()</code> or <code>TimeUuid.now().toV6()</code></p>
+ */
+export class TimeUuidV6 extends Uuid {
+  /**
+   * Creates a new instance of TimeUuidV6 based on the parameters provided.
+   * @param {Date|Uint8Array} [value] The datetime or 16 bytes for the instance, if not provided, it will use the current Date.
+   * @param {Number} [ticks] A number from 0 to 10000 representing the 100-nanoseconds units for this instance to fill in the information not available in the Date,
+   * as Ecmascript Dates have only milliseconds precision.
+   * @param {String|Uint8Array} [nodeId] A 6-length Uint8Array or string of 6 ascii characters representing the node identifier, ie: 'host01'.
+   * @param {String|Uint8Array} [clockId] A 2-length Uint8Array or string of 6 ascii characters representing the clock identifier.
+   */
+  constructor(
+    value?: Date | Uint8Array,
+    ticks?: number,
+    nodeId?: string | Uint8Array,
+    clockId?: string | Uint8Array,
+  ) {
+    let bytes: Uint8Array
+    if (value instanceof Uint8Array) {
+      if (value.length !== 16) {
+        throw new InvalidUuidFormatError("Buffer for v6 uuid not valid", value)
+      }
+      bytes = value
+    } else {
+      bytes = v1ToV6(TimeUuidGenerator.getDefault().createBuffer(value, ticks, nodeId, clockId))
+    }
+    super(bytes)
   }
-  return buffer
-}
 
-function getNodeId(nodeId?: string | Buffer): Buffer {
-  let buffer = nodeId
-  if (typeof nodeId === "string") {
-    buffer = Buffer.from(nodeId, "ascii")
+  /**
+   * Creates a new instance of TimeUuidV6 based on the date provided.
+   * @param {Date} date The date to create the TimeUuidV6 from.
+   * @param {Number} [ticks] A number from 0 to 10000 representing the 100-nanoseconds units for this instance.
+   * @param {String|Uint8Array} [nodeId] A 6-length Uint8Array or string of 6 ascii characters representing the node identifier.
+   * @param {String|Uint8Array} [clockId] A 2-length Uint8Array or string of 6 ascii characters representing the clock identifier.
+   */
+  static fromDate(
+    date?: Date,
+    ticks?: number,
+    nodeId?: string | Uint8Array,
+    clockId?: string | Uint8Array,
+  ): TimeUuidV6 {
+    return new TimeUuidV6(date, ticks, nodeId, clockId)
   }
-  if (!(buffer instanceof Buffer)) {
-    buffer = getRandomBytes(6)
-  } else if (buffer.length !== 6) {
-    throw new Error("Node identifier must have 6 bytes")
+
+  /**
+   * Creates a new instance of TimeUuidV6 based on the string provided.
+   * @param {string} value The string to create the TimeUuidV6 from.
+   */
+  static override fromString(value: string): TimeUuidV6 {
+    return new TimeUuidV6(Uuid.fromString(value).getBytes())
   }
-  return buffer
-}
 
-function getTicks(ticks?: number): number {
-  if (typeof ticks !== "number" || ticks >= _ticksInMs) {
-    _ticks++
-    if (_ticks >= _ticksInMs) {
-      _ticks = 0
+  /**
+   * Returns the smallest possible type 6 uuid with the provided Date, in byte order, or with the exact ticks of an ISO
+   * 8601 date as read by <code>TimeUuid.fromISOString()</code>, which holds its own ticks.
+   * @throws {RangeError} When the ISO 8601 date is not valid, or is given with ticks
+   */
+  static min(date: Date, ticks?: number): TimeUuidV6
+  static min(date: string): TimeUuidV6
+  static min(date: Date | string, ticks?: number): TimeUuidV6 {
+    if (typeof date === "string") {
+      const timeWithTicks = parseBound(date, ticks)
+      return new TimeUuidV6(new Date(timeWithTicks.time), timeWithTicks.ticks, minV6NodeId, minV6ClockId)
     }
-    ticks = _ticks
+    return new TimeUuidV6(date, ticks, minV6NodeId, minV6ClockId)
   }
-  return ticks
-}
 
-function getTimeWithTicks(date?: Date, ticks?: number): TimeWithTicks {
-  if (!(date instanceof Date) || isNaN(date.getTime())) {
-    date = new Date()
-    const time = date.getTime()
-    _ticksForCurrentTime++
-    if (_ticksForCurrentTime > _ticksInMs || time > _lastTimestamp) {
-      _ticksForCurrentTime = 0
-      _lastTimestamp = time
+  /**
+   * Returns the biggest possible type 6 uuid with the provided Date, in byte order, or with the exact ticks of an ISO
+   * 8601 date as read by <code>TimeUuid.fromISOString()</code>, which holds its own ticks.
+   * @throws {RangeError} When the ISO 8601 date is not valid, or is given with ticks
+   */
+  static max(date: Date, ticks?: number): TimeUuidV6
+  static max(date: string): TimeUuidV6
+  static max(date: Date | string, ticks?: number): TimeUuidV6 {
+    if (typeof date === "string") {
+      const timeWithTicks = parseBound(date, ticks)
+      return new TimeUuidV6(new Date(timeWithTicks.time), timeWithTicks.ticks, maxV6NodeId, maxV6ClockId)
     }
-    ticks = _ticksForCurrentTime
-  }
-  return {
-    time: date.getTime(),
-    ticks: getTicks(ticks),
+    return new TimeUuidV6(date, ticks, maxV6NodeId, maxV6ClockId)
   }
-}
 
-function getRandomBytes(length: number): Buffer {
-  return crypto.randomBytes(length)
-}
+  /**
+   * Returns the current v6 uuid.
+   */
+  static now(
+    nodeId?: string | Uint8Array,
+    clockId?: string | Uint8Array,
+  ): TimeUuidV6 {
+    return TimeUuidV6.fromDate(undefined, undefined, nodeId, clockId)
+  }
 
-function generateBuffer(
-  date?: Date | Buffer,
-  ticks?: number,
-  nodeId?: string | Buffer,
-  clockId?: string | Buffer,
-): Buffer {
-  const timeWithTicks = getTimeWithTicks(date as Date, ticks)
-  const nodeBuffer = getNodeId(nodeId)
-  const clockBuffer = getClockId(clockId)
-  const buffer = Buffer.alloc(16)
+  /**
+   * Sorts two TimeUuidV6 instances in ascending order.
+   * @param {TimeUuidV6} a - The first TimeUuidV6 instance.
+   * @param {TimeUuidV6} b - The second TimeUuidV6 instance.
+   * @returns {number} - A negative number if a is before b, a positive number if a is after b, or 0 if they are equal.
+   */
+  static sortAscending(a: TimeUuidV6, b: TimeUuidV6): number {
+    return compareBytes(a.bytes, b.bytes)
+  }
+
+  /**
+   * Sorts two TimeUuidV6 instances in descending order
+   * @param {TimeUuidV6} a - The first TimeUuidV6 instance.
+   * @param {TimeUuidV6} b - The second TimeUuidV6 instance.
+   * @returns {number} - A negative number if a is after b, a positive number if a is before b, or 0 if they are equal.
+   */
+  static sortDescending(a: TimeUuidV6, b: TimeUuidV6): number {
+    return TimeUuidV6.sortAscending(b, a)
+  }
+
+  /**
+   * Returns the date precision (date and ticks) of the uuid.
+   */
+  getDatePrecision(): DatePrecision {
+    return readDatePrecision(v6ToV1(this.bytes))
+  }
+
+  /**
+   * Returns the date of the uuid.
+   */
+  getDate(): Date {
+    return this.getDatePrecision().date
+  }
+
+  /**
+   * Returns the node id of the uuid.
+   */
+  getNodeId(): Buffer {
+    return toBuffer(this.bytes.slice(10))
+  }
+
+  /**
+   * Returns the clock id of the uuid.
+   */
+  getClockId(): Buffer {
+    return toBuffer(this.bytes.slice(8, 10))
+  }
+
+  /**
+   * Returns the version 1 representation of this uuid, with the same timestamp, clock id and node id.
+   */
+  toV1(): TimeUuid {
+    return TimeUuid.fromV6(this)
+  }
+
+  /**
+   * Returns true if this TimeUuidV6 represents a time before the other TimeUuidV6, comparing both the date and ticks.
+   * @param other The TimeUuidV6 to compare against
+   */
+  isBefore(other: TimeUuidV6): boolean {
+    return compareBytes(this.bytes.subarray(0, 8), other.bytes.subarray(0, 8)) < 0
+  }
+
+  /**
+   * Returns true if this TimeUuidV6 represents a time after the other TimeUuidV6, comparing both the date and ticks.
+   * @param other The TimeUuidV6 to compare against
+   */
+  isAfter(other: TimeUuidV6): boolean {
+    return compareBytes(this.bytes.subarray(0, 8), other.bytes.subarray(0, 8)) > 0
+  }
+}
+
+/**
+ * Options for a TimeUuidGenerator
+ */
+export interface TimeUuidGeneratorOptions {
+  /**
+   * A 6-length Uint8Array or string of 6 ascii characters used as node identifier when none is provided per call, see
+   * NodeId for ways to derive one. If not set, the process-wide default of <code>NodeId.setDefault()</code> is used,
+   * and when there is none, a random node identifier with the multicast bit set, created once per process.
+   */
+  nodeId?: string | Uint8Array
+  /**
+   * A 2-length Uint8Array or string of 2 ascii characters used as clock identifier when none is provided per call.
+   * If not set, the clock identifier is restored from the state store.
+   */
+  clockId?: string | Uint8Array
+  /**
+   * Stable storage for the clock sequence and the last timestamp, used when no clock identifier is set.
+   * Defaults to an in-memory store, so the clock sequence is random per generator.
+   */
+  stateStore?: ClockStateStore
+  /**
+   * Milliseconds of uuid generation reserved with every save of the state store, defaults to 1000.
+   * A generator restarted within that window advances the clock sequence, as it can't know the last timestamp used.
+   */
+  stateSaveInterval?: number
+  /**
+   * The source of the current time, defaults to <code>Date.now()</code>.
+   */
+  clock?: Clock
+  /**
+   * The source of the random node and clock identifiers, defaults to a pool of bytes filled with
+   * <code>crypto.getRandomValues()</code>.
+   */
+  random?: RandomSource
+  /**
+   * Called when more than 10000 uuids are generated within the same millisecond and the next millisecond is borrowed.
+   * @param date The borrowed millisecond.
+   */
+  onTickOverflow?: (date: Date) => void
+  /**
+   * Called when the clock returns a time before the previous one, after the clock sequence is advanced.
+   * @param previous The previous time returned by the clock.
+   * @param current The time returned by the clock.
+   */
+  onClockRegression?: (previous: Date, current: Date) => void
+}
+
+/**
+ * Options of <code>generateBatch()</code>
+ */
+export interface TimeUuidBatchOptions {
+  /**
+   * The node identifier of all the uuids of the batch, if not provided, it will use the default of the generator.
+   */
+  nodeId?: string | Uint8Array
+  /**
+   * The clock identifier of all the uuids of the batch, if not provided, it will use the default of the generator.
+   */
+  clockId?: string | Uint8Array
+  /**
+   * The date of the first uuid, to spread the batch evenly between start and end instead of using the current time.
+   */
+  start?: Date
+  /**
+   * The date before which the spread batch ends, required with start.
+   */
+  end?: Date
+}
+
+/**
+ * Monotonicity anomalies handled by a TimeUuidGenerator
+ */
+export interface TimeUuidGeneratorStats {
+  /**
+   * Number of times a millisecond was borrowed because its 10000 ticks were used.
+   */
+  tickOverflows: number
+  /**
+   * Number of times the clock returned a time before the previous one.
+   */
+  clockRegressions: number
+}
+
+/**
+ * Generates version 1 uuids, keeping its own tick counters and default node and clock identifiers.
+ * <p>
+ *   Uuids generated for the current time are strictly increasing: when the 10000 ticks of a millisecond are used, the
+ *   next millisecond is borrowed, and when the clock goes backward, the clock sequence is advanced as described in
+ *   RFC 4122 and the uuids keep increasing from the last one issued.
+ * </p>
+ * <p>
+ *   The static <code>TimeUuid.now()</code> and <code>TimeUuid.fromDate()</code> methods delegate to a process-wide
+ *   default instance, use separate instances to keep the state of different tenants or tests isolated.
+ * </p>
+ * <p>Usage: <code>new TimeUuidGenerator({ nodeId: "host01" }).now()</code></p>
+ */
+export class TimeUuidGenerator {
+  private static defaultGenerator = new TimeUuidGenerator()
+
+  /**
+   * Counter used to generate up to 10000 different timeuuid values with the same Date
+   */
+  private ticks = 0
+  /**
+   * Last time and ticks issued for the current time, uuids for the current time are always after them
+   */
+  private lastTime = -Infinity
+  private lastTicks = 0
+  /**
+   * Last time and ticks returned by the clock, used to detect clock regressions
+   */
+  private lastClockTime = -Infinity
+  private lastClockTicks = 0
+  /**
+   * Offset from the clock sequence of the last uuid created from an exact timestamp, from 1 to 16383
+   */
+  private timestampSequence = 0
+  private readonly stats: TimeUuidGeneratorStats = { tickOverflows: 0, clockRegressions: 0 }
+  private readonly nodeId?: Uint8Array
+  private clockId?: Uint8Array
+  private readonly stateStore?: ClockStateStore
+  private readonly stateSaveInterval: number
+  /**
+   * Time up to which the saved state covers the generated uuids
+   */
+  private savedUntil = -Infinity
+  private readonly clock: Clock
+  private readonly random: RandomSource
+  private readonly onTickOverflow?: (date: Date) => void
+  private readonly onClockRegression?: (previous: Date, current: Date) => void
+
+  /**
+   * Creates a new generator with its own state.
+   * @param options The default node and clock identifiers and the time and random sources of the generator.
+   */
+  constructor(options: TimeUuidGeneratorOptions = {}) {
+    this.clock = options.clock ?? new SystemClock()
+    this.random = options.random ?? new PooledRandom()
+    this.onTickOverflow = options.onTickOverflow
+    this.onClockRegression = options.onClockRegression
+    if (options.nodeId !== undefined) {
+      this.nodeId = getNodeId(options.nodeId)
+    }
+    if (options.clockId !== undefined) {
+      this.clockId = getClockId(options.clockId, this.random)
+    } else {
+      this.stateStore = options.stateStore ?? new MemoryClockStateStore()
+    }
+    this.stateSaveInterval = options.stateSaveInterval ?? 1000
+  }
+
+  /**
+   * Returns the generator used by the static methods of TimeUuid.
+   */
+  static getDefault(): TimeUuidGenerator {
+    return TimeUuidGenerator.defaultGenerator
+  }
+
+  /**
+   * Replaces the generator used by the static methods of TimeUuid.
+   * @param generator The generator to use from now on.
+   */
+  static setDefault(generator: TimeUuidGenerator): void {
+    TimeUuidGenerator.defaultGenerator = generator
+  }
+
+  /**
+   * Returns the number of tick overflows and clock regressions handled by this generator.
+   */
+  getStats(): TimeUuidGeneratorStats {
+    return { ...this.stats }
+  }
+
+  /**
+   * Returns the current timeuuid, strictly greater than the previous one returned by this generator.
+   * @param {String|Uint8Array} [nodeId] The node identifier, if not provided, it will use the default of the generator.
+   * @param {String|Uint8Array} [clockId] The clock identifier, if not provided, it will use the default of the generator.
+   */
+  now(nodeId?: string | Uint8Array, clockId?: string | Uint8Array): TimeUuid {
+    return this.fromDate(undefined, undefined, nodeId, clockId)
+  }
+
+  /**
+   * Creates a new instance of TimeUuid based on the date provided.
+   * Without ticks, a counter fills them in and the default clock sequence moves on each time the counter starts over.
+   * @param {Date} [date] The date to create the TimeUuid from, if not provided, it will use the current Date.
+   * @param {Number} [ticks] A number from 0 to 10000 representing the 100-nanoseconds units for this instance.
+   * @param {String|Uint8Array} [nodeId] The node identifier, if not provided, it will use the default of the generator.
+   * @param {String|Uint8Array} [clockId] The clock identifier, if not provided, it will use the default of the generator.
+   */
+  fromDate(date?: Date, ticks?: number, nodeId?: string | Uint8Array, clockId?: string | Uint8Array): TimeUuid {
+    return new TimeUuid(this.createBuffer(date, ticks, nodeId, clockId))
+  }
+
+  /**
+   * Creates a new instance of TimeUuid with the exact 60-bit timestamp provided.
+   * <p>
+   *   Without a clock identifier, each call takes the next clock sequence after the default one of the generator, so
+   *   up to 16383 uuids of the same timestamp and node identifier are unique. The clock state is only restored once,
+   *   as the default clock sequence doesn't change.
+   * </p>
+   * @param {bigint} timestamp The number of 100-nanosecond intervals since the Gregorian epoch, Oct 15, 1582.
+   * @param {String|Uint8Array} [nodeId] The node identifier, if not provided, it will use the default of the generator.
+   * @param {String|Uint8Array} [clockId] The clock identifier, if not provided, it will follow the default of the
+   * generator.
+   * @throws {RangeError} When the timestamp doesn't fit in 60 bits
+   */
+  fromTimestamp(timestamp: bigint, nodeId?: string | Uint8Array, clockId?: string | Uint8Array): TimeUuid {
+    const { time, ticks } = getTimeWithTicks(timestamp)
+    if (clockId === undefined && !this.clockId) {
+      this.restoreClockState()
+    }
+    const clock = clockId === undefined ? this.getTimestampClockId() : getClockId(clockId, this.random)
+    return new TimeUuid(toBuffer(createBytes(time, ticks, getNodeId(nodeId ?? this.getDefaultNodeId()), clock)))
+  }
+
+  /**
+   * Generates the bytes of a version 1 uuid, updating the state of this generator.
+   * @param {Date} [date] The date of the uuid, if not provided, it will use the current Date.
+   * @param {Number} [ticks] A number from 0 to 10000 representing the 100-nanoseconds units for this instance.
+   * @param {String|Uint8Array} [nodeId] The node identifier, if not provided, it will use the default of the generator.
+   * @param {String|Uint8Array} [clockId] The clock identifier, if not provided, it will use the default of the generator.
+   */
+  createBuffer(
+    date?: Date,
+    ticks?: number,
+    nodeId?: string | Uint8Array,
+    clockId?: string | Uint8Array,
+  ): Buffer {
+    if (!this.clockId) {
+      this.restoreClockState()
+    }
+    const timeWithTicks = this.getTimeWithTicks(date, ticks)
+    return toBuffer(createBytes(
+      timeWithTicks.time,
+      timeWithTicks.ticks,
+      getNodeId(nodeId ?? this.getDefaultNodeId()),
+      getClockId(clockId ?? this.clockId, this.random),
+    ))
+  }
+
+  /**
+   * Generates strictly increasing timeuuids for a single node, with the same order and format as repeated calls to
+   * <code>now()</code>, or spread evenly between two dates.
+   * <p>
+   *   The uuids are written to a single scratch array and the node and clock identifiers are resolved once, so the
+   *   batch doesn't need any entropy once the identifiers are known.
+   * </p>
+   * @param {Number} count The number of uuids.
+   * @param {TimeUuidBatchOptions} [options] The node and clock identifiers, and the dates to spread the batch between.
+   * @throws {RangeError} When the count is negative or not an integer, or the dates don't hold as many ticks as the count
+   */
+  generateBatch(count: number, options: TimeUuidBatchOptions = {}): TimeUuid[] {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new RangeError("The count must be a non-negative integer")
+    }
+    const getTimeWithTicks = options.start || options.end
+      ? getSpreadTimeWithTicks(count, options.start, options.end)
+      : () => this.getCurrentTimeWithTicks()
+    if (!this.clockId) {
+      this.restoreClockState()
+    }
+    const nodeId = getNodeId(options.nodeId ?? this.getDefaultNodeId())
+    const clockId = options.clockId === undefined ? undefined : getClockId(options.clockId, this.random)
+    const bytes = new Uint8Array(16)
+    const batch = new Array<TimeUuid>(count)
+    for (let i = 0; i < count; i++) {
+      const { time, ticks } = getTimeWithTicks(i)
+      // The clock identifier of the generator changes when the clock goes backward
+      writeBytes(bytes, time, ticks, nodeId, clockId ?? this.clockId!)
+      batch[i] = new TimeUuid(bytes)
+    }
+    return batch
+  }
+
+  private getTicks(ticks?: number): number {
+    if (typeof ticks !== "number" || ticks >= _ticksInMs) {
+      this.ticks++
+      if (this.ticks >= _ticksInMs) {
+        this.ticks = 0
+        // The ticks of a date start over, a new clock sequence keeps the uuids of the same date unique
+        if (this.stateStore) {
+          this.advanceClockSequence()
+        }
+      }
+      ticks = this.ticks
+    }
+    return ticks
+  }
+
+  private getTimeWithTicks(date?: Date, ticks?: number): TimeWithTicks {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+      return this.getCurrentTimeWithTicks()
+    }
+    return {
+      time: date.getTime(),
+      ticks: this.getTicks(ticks),
+    }
+  }
+
+  private getCurrentTimeWithTicks(): TimeWithTicks {
+    const now = this.clock.now()
+    let time = now as number
+    let ticks = 0
+    if (typeof now === "bigint") {
+      // The clock already provides the 100-nanosecond units
+      const ticksInMs = BigInt(_ticksInMs)
+      const remainder = ((now % ticksInMs) + ticksInMs) % ticksInMs
+      time = Number((now - remainder) / ticksInMs)
+      ticks = Number(remainder)
+    }
+
+    if (isBefore(time, ticks, this.lastClockTime, this.lastClockTicks)) {
+      this.stats.clockRegressions++
+      this.advanceClockSequence()
+      this.onClockRegression?.(new Date(this.lastClockTime), new Date(time))
+    }
+    this.lastClockTime = time
+    this.lastClockTicks = ticks
+
+    if (isBefore(this.lastTime, this.lastTicks, time, ticks)) {
+      this.lastTime = time
+      this.lastTicks = ticks
+    } else if (this.lastTicks < _ticksInMs - 1) {
+      this.lastTicks++
+    } else {
+      this.lastTime++
+      this.lastTicks = 0
+      if (this.lastTime > time) {
+        this.stats.tickOverflows++
+        this.onTickOverflow?.(new Date(this.lastTime))
+      }
+    }
+    if (this.lastTime > this.savedUntil) {
+      this.saveClockState(this.lastTime + this.stateSaveInterval)
+    }
+    return { time: this.lastTime, ticks: this.lastTicks }
+  }
+
+  /**
+   * Returns the node identifier of the generator, or the process-wide default, or else the random one of the process.
+   */
+  private getDefaultNodeId(): Uint8Array {
+    return this.nodeId ?? NodeId.getDefault() ?? getProcessNodeId()
+  }
+
+  /**
+   * Returns the clock identifier of the next uuid created from an exact timestamp, never the default one of the
+   * generator, which its uuids for the current time use.
+   */
+  private getTimestampClockId(): Uint8Array {
+    this.timestampSequence = this.timestampSequence % 0x3fff + 1
+    const sequence = ((this.clockId![0] & 0x3f) << 8 | this.clockId![1]) + this.timestampSequence
+    const clockId = new Uint8Array(2)
+    clockId[0] = (this.clockId![0] & 0xc0) | ((sequence >>> 8) & 0x3f)
+    clockId[1] = sequence & 0xff
+    return clockId
+  }
+
+  /**
+   * Restores the clock sequence from the state store, advancing it when the store can't rule out that uuids were
+   * generated after the current time, or picking a random one when there is no state for this node.
+   */
+  private restoreClockState(): void {
+    const state = this.stateStore!.load()
+    const nodeId = toHex(this.getDefaultNodeId())
+    let clockSequence: number
+    if (!state || (state.nodeId !== undefined && state.nodeId !== nodeId)) {
+      clockSequence = getDataView(getRandomBytes(2, this.random)).getUint16(0)
+    } else {
+      clockSequence = state.clockSequence
+      const now = this.clock.now()
+      const time = typeof now === "bigint" ? Number(now / BigInt(_ticksInMs)) : now
+      if (time <= state.timestamp) {
+        clockSequence++
+      }
+    }
+    this.clockId = getClockSequenceBytes(clockSequence)
+    this.saveClockState(state?.timestamp ?? 0)
+  }
+
+  /**
+   * Saves the clock sequence, reserving uuid generation up to the provided time.
+   */
+  private saveClockState(until: number): void {
+    if (!this.stateStore || !this.clockId) {
+      return
+    }
+    const state: ClockState = {
+      clockSequence: getDataView(this.clockId).getUint16(0) & 0x3fff,
+      timestamp: until,
+      nodeId: toHex(this.getDefaultNodeId()),
+    }
+    this.stateStore.save(state)
+    this.savedUntil = state.timestamp
+  }
+
+  /**
+   * Increments the 14-bit clock sequence of the default clock identifier, when there is one.
+   */
+  private advanceClockSequence(): void {
+    if (!this.clockId) {
+      return
+    }
+    const sequence = (((this.clockId[0] & 0x3f) << 8) | this.clockId[1]) + 1
+    const clockId = new Uint8Array(2)
+    clockId[0] = (this.clockId[0] & 0xc0) | ((sequence >>> 8) & 0x3f)
+    clockId[1] = sequence & 0xff
+    this.clockId = clockId
+    this.saveClockState(Math.max(this.savedUntil, this.lastTime + this.stateSaveInterval))
+  }
+}
+
+Uuid.registerVersion(1, (bytes) => new TimeUuid(bytes))
+Uuid.registerVersion(6, (bytes) => new TimeUuidV6(bytes))
+
+// Helper functions
+function readDatePrecision(bytes: Uint8Array): DatePrecision {
+  const high = readTimestampHigh(bytes)
+  const low = readTimestampLow(bytes)
+  return {
+    date: new Date(getUnixTime(high, low)),
+    ticks: getTicksOfMs(high, low),
+  }
+}
+
+/**
+ * Reads the 28 most significant bits of the timestamp, from the time_high and time_mid fields of a v1 uuid.
+ */
+function readTimestampHigh(bytes: Uint8Array): number {
+  return ((bytes[6] & 0x0f) << 24) | (bytes[7] << 16) | (bytes[4] << 8) | bytes[5]
+}
+
+/**
+ * Reads the 32 least significant bits of the timestamp, from the time_low field of a v1 uuid.
+ */
+function readTimestampLow(bytes: Uint8Array): number {
+  return ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0
+}
+
+/**
+ * Returns the milliseconds since the unix epoch of the timestamp split in its 28 high and 32 low bits.
+ * The 60-bit timestamp exceeds 2^53, but 2^32 ticks are 429496 ms and 7296 ticks, so the result stays exact.
+ */
+function getUnixTime(high: number, low: number): number {
+  return high * _msInTwoPow32Ticks + Math.floor((high * _ticksInTwoPow32Ticks + low) / _ticksInMs) - _unixToGregorian
+}
+
+/**
+ * Returns the ticks within the millisecond of the timestamp split in its 28 high and 32 low bits.
+ */
+function getTicksOfMs(high: number, low: number): number {
+  return (high * _ticksInTwoPow32Ticks + low) % _ticksInMs
+}
+
+/**
+ * Reads the 60-bit timestamp from the time_low, time_mid and time_high fields of a v1 uuid.
+ */
+function readTimestamp(bytes: Uint8Array): bigint {
+  const view = getDataView(bytes)
+  const timeHigh = view.getUint16(6) & 0x0fff
+  const timeMid = view.getUint16(4)
+  const timeLow = view.getUint32(0)
+  return (BigInt(timeHigh) << 48n) | (BigInt(timeMid) << 32n) | BigInt(timeLow)
+}
+
+function writeTime(bytes: Uint8Array, time: number, ticks: number): void {
+  // The timestamp exceeds 2^53, so it is computed in two halves to stay exact without allocating a bigint
+  const gregorianTime = time + _unixToGregorian
+  const timeHigh = Math.floor(gregorianTime / 0x100000000)
+  const low = (gregorianTime - timeHigh * 0x100000000) * _ticksInMs + ticks
+  const carry = Math.floor(low / 0x100000000)
+  // Dates before the Gregorian epoch wrap around, as two's complement of the 60 bits
+  const high = (timeHigh * _ticksInMs + carry) & 0x0fffffff
+  const timeLow = low - carry * 0x100000000
+  bytes[0] = timeLow >>> 24
+  bytes[1] = timeLow >>> 16
+  bytes[2] = timeLow >>> 8
+  bytes[3] = timeLow
+  bytes[4] = high >>> 8
+  bytes[5] = high
+  bytes[6] = high >>> 24
+  bytes[7] = high >>> 16
+}
+
+/**
+ * Returns the ISO 8601 representation of the date with the ticks as the last 4 of the 7 digits of the fraction of the
+ * second.
+ */
+function formatTimestamp(date: Date, ticks: number): string {
+  return date.toISOString().replace("Z", `${String(ticks).padStart(4, "0")}Z`)
+}
+
+function toPrintableAscii(bytes: Uint8Array): string {
+  let result = ""
+  for (const byte of bytes) {
+    result += byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : "."
+  }
+  return result
+}
+
+/**
+ * Splits a 60-bit timestamp into the milliseconds since the unix epoch and the remaining ticks.
+ */
+function getTimeWithTicks(timestamp: bigint): TimeWithTicks {
+  if (typeof timestamp !== "bigint" || timestamp < 0n || timestamp > _maxTimestamp) {
+    throw new RangeError("Timestamp must be a bigint between 0 and 2^60 - 1")
+  }
+  const ticksInMs = BigInt(_ticksInMs)
+  return {
+    time: Number(timestamp / ticksInMs) - _unixToGregorian,
+    ticks: Number(timestamp % ticksInMs),
+  }
+}
+
+/**
+ * Returns the time and exact ticks of an ISO 8601 date used as the bound of <code>min()</code> or <code>max()</code>.
+ */
+function parseBound(value: string, ticks: number | undefined): TimeWithTicks {
+  if (ticks !== undefined) {
+    throw new RangeError("The ticks can't be given with an ISO 8601 date, which holds its own ticks")
+  }
+  return getTimeWithTicks(parseISOString(value, "floor") + _unixToGregorianTicks)
+}
+
+/**
+ * Moves the timestamp of a v1 uuid to the most significant bits first layout of a v6 uuid.
+ * The clock id, node id and variant are kept as is.
+ */
+function v1ToV6(v1: Uint8Array): Uint8Array {
+  const source = getDataView(v1)
+  const timeLow = source.getUint32(0)
+  const timeMid = source.getUint16(4)
+  const timeHigh = source.getUint16(6) & 0x0fff
+  const bytes = new Uint8Array(v1)
+  const view = getDataView(bytes)
+  view.setUint32(0, ((timeHigh << 20) | (timeMid << 4) | (timeLow >>> 28)) >>> 0)
+  view.setUint16(4, (timeLow >>> 12) & 0xffff)
+  view.setUint16(6, 0x6000 | (timeLow & 0x0fff))
+  return bytes
+}
+
+/**
+ * Moves the timestamp of a v6 uuid back to the time_low, time_mid and time_high layout of a v1 uuid.
+ * The clock id, node id and variant are kept as is.
+ */
+function v6ToV1(v6: Uint8Array): Uint8Array {
+  const source = getDataView(v6)
+  const high = source.getUint32(0)
+  const mid = source.getUint16(4)
+  const low = source.getUint16(6) & 0x0fff
+  const bytes = new Uint8Array(v6)
+  const view = getDataView(bytes)
+  view.setUint32(0, (((high & 0x0f) << 28) | (mid << 12) | low) >>> 0)
+  view.setUint16(4, (high >>> 4) & 0xffff)
+  view.setUint16(6, 0x1000 | (high >>> 20))
+  return bytes
+}
+
+/**
+ * Orders the bytes of a uuid as <code>TimeUuid.compare()</code> reads them: the timestamp bytes from the most
+ * significant, then the clock id and node id bytes with their sign bit flipped so they compare as unsigned values.
+ */
+function toSortableBytes(uuid: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(16)
+  _timestampBytes.forEach((index, i) => bytes[i] = uuid[index])
+  for (let i = 8; i < 16; i++) {
+    bytes[i] = uuid[i] ^ 0x80
+  }
+  return bytes
+}
+
+function fromSortableBytes(bytes: Uint8Array): Uint8Array {
+  const uuid = new Uint8Array(16)
+  _timestampBytes.forEach((index, i) => uuid[index] = bytes[i])
+  for (let i = 8; i < 16; i++) {
+    uuid[i] = bytes[i] ^ 0x80
+  }
+  return uuid
+}
+
+function getClockSequenceBytes(clockSequence: number): Uint8Array {
+  const bytes = new Uint8Array(2)
+  getDataView(bytes).setUint16(0, 0x8000 | (clockSequence & 0x3fff))
+  return bytes
+}
+
+function getClockId(clockId: string | Uint8Array | undefined, random: RandomSource): Uint8Array {
+  let bytes = clockId
+  if (typeof clockId === "string") {
+    bytes = fromAscii(clockId)
+  }
+  if (!(bytes instanceof Uint8Array)) {
+    bytes = getRandomBytes(2, random)
+  } else if (bytes.length !== 2) {
+    throw new Error("Clock identifier must have 2 bytes")
+  }
+  return bytes
+}
+
+function getNodeId(nodeId: string | Uint8Array): Uint8Array {
+  const bytes = typeof nodeId === "string" ? fromAscii(nodeId) : nodeId
+  if (!(bytes instanceof Uint8Array) || bytes.length !== 6) {
+    throw new Error("Node identifier must have 6 bytes, use NodeId.fromName() to derive one from a longer name")
+  }
+  return bytes
+}
+
+function getProcessNodeId(): Uint8Array {
+  return _processNodeId ??= NodeId.random()
+}
+
+function getRandomBytes(length: number, random: RandomSource): Uint8Array {
+  return new Uint8Array(random.getRandomBytes(length).subarray(0, length))
+}
+
+/**
+ * Compares the timestamps of two v1 uuids as unsigned values, the version being the most significant bits as in
+ * Cassandra.
+ */
+function compareTimestamps(a: Uint8Array, b: Uint8Array): number {
+  for (const i of _timestampBytes) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i]
+    }
+  }
+  return 0
+}
+
+/**
+ * Compares the bytes lexicographically from the offset, as signed values.
+ */
+function compareSignedBytes(a: Uint8Array, b: Uint8Array, offset: number): number {
+  for (let i = offset; i < 16; i++) {
+    if (a[i] !== b[i]) {
+      return ((a[i] << 24) >> 24) - ((b[i] << 24) >> 24)
+    }
+  }
+  return 0
+}
+
+/**
+ * Compares the canonical string representations of two v1 uuids with the order of <code>compareTimestamps()</code>
+ * and then <code>compareSignedBytes()</code>.
+ */
+function compareCanonicalStrings(a: string, b: string): number {
+  for (const i of _timestampChars) {
+    const diff = readHexDigit(a, i) - readHexDigit(b, i)
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  for (const i of _clockAndNodeChars) {
+    // Flipping the sign bit orders signed bytes as unsigned ones
+    const diff = (readHexByte(a, i) ^ 0x80) - (readHexByte(b, i) ^ 0x80)
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  return 0
+}
+
+/**
+ * Checks the length, the hyphens at 8, 13, 18 and 23 and the hex digits of a canonical uuid string, without allocating.
+ */
+function checkCanonicalString(value: string): void {
+  if (typeof value !== "string" || value.length !== 36) {
+    throw new InvalidUuidFormatError("Invalid canonical string representation of TimeUuid", value)
+  }
+  for (let i = 0; i < 36; i++) {
+    if (i === 8 || i === 13 || i === 18 || i === 23) {
+      if (value.charCodeAt(i) !== 45) {
+        throw new InvalidUuidFormatError("Invalid canonical string representation of TimeUuid", value)
+      }
+    } else {
+      // Throws for any character that is not a hex digit
+      readHexDigit(value, i)
+    }
+  }
+}
+
+/**
+ * Reads the hex characters from start to end as a number, for up to 8 characters.
+ */
+function readHex(value: string, start: number, end: number): number {
+  let result = 0
+  for (let i = start; i < end; i++) {
+    result = result * 16 + readHexDigit(value, i)
+  }
+  return result
+}
+
+function readHexByte(value: string, index: number): number {
+  return (readHexDigit(value, index) << 4) | readHexDigit(value, index + 1)
+}
+
+function readHexDigit(value: string, index: number): number {
+  const code = value.charCodeAt(index)
+  if (code >= 48 && code <= 57) {
+    return code - 48
+  }
+  // Lowercase the letters
+  const letter = code | 0x20
+  if (letter >= 97 && letter <= 102) {
+    return letter - 87
+  }
+  throw new InvalidUuidFormatError("Invalid canonical string representation of TimeUuid", value)
+}
+
+/**
+ * Returns the time of each uuid of a batch spread evenly from the start date, up to before the end date.
+ */
+function getSpreadTimeWithTicks(count: number, start?: Date, end?: Date): (index: number) => TimeWithTicks {
+  if (!(start instanceof Date) || !(end instanceof Date)) {
+    throw new RangeError("Both the start and end dates are required to spread a batch")
+  }
+  const startTime = start.getTime()
+  const span = (end.getTime() - startTime) * _ticksInMs
+  if (!(span >= count)) {
+    throw new RangeError("The dates must be at least one tick apart for each uuid of the batch")
+  }
+  return (index) => {
+    const offset = Math.floor(index * span / count)
+    return { time: startTime + Math.floor(offset / _ticksInMs), ticks: offset % _ticksInMs }
+  }
+}
+
+function isBefore(time: number, ticks: number, otherTime: number, otherTicks: number): boolean {
+  return time < otherTime || (time === otherTime && ticks < otherTicks)
+}
+
+function createBytes(time: number, ticks: number, nodeId: Uint8Array, clockId: Uint8Array): Uint8Array {
+  return writeBytes(new Uint8Array(16), time, ticks, nodeId, clockId)
+}
 
-  writeTime(buffer, timeWithTicks.time, timeWithTicks.ticks)
-  clockBuffer.copy(buffer, 8, 0)
-  nodeBuffer.copy(buffer, 10, 0)
+function writeBytes(
+  bytes: Uint8Array,
+  time: number,
+  ticks: number,
+  nodeId: Uint8Array,
+  clockId: Uint8Array,
+): Uint8Array {
+  writeTime(bytes, time, ticks)
+  bytes.set(clockId, 8)
+  bytes.set(nodeId, 10)
 
   // Version Byte: Time based
-  buffer[6] = buffer[6] & 0x0f
-  buffer[6] = buffer[6] | 0x10
+  bytes[6] = bytes[6] & 0x0f
+  bytes[6] = bytes[6] | 0x10
 
   // IETF Variant Byte
-  buffer[8] = buffer[8] & 0x3f
-  buffer[8] = buffer[8] | 0x80
+  bytes[8] = bytes[8] & 0x3f
+  bytes[8] = bytes[8] | 0x80
 
-  return buffer
+  return bytes
 }
@@ -0,0 +1,238 @@
+import type { Uuid } from "./uuid.ts"
+
+/**
+ * A key and value of a UuidMap
+ */
+interface UuidMapEntry<V> {
+  key: Uuid
+  value: V
+}
+
+/**
+ * Map keyed by the value of uuids instead of their identity, so equal uuids of any class, such as a TimeUuid and the
+ * Uuid parsed from its string, are the same key.
+ * <p>
+ *   Keys are hashed with <code>hashCode()</code> and compared with <code>equals()</code>, without converting them to
+ *   strings. Iteration follows the insertion order, as for a Map.
+ * </p>
+ * <p>Usage: <code>const counts = new UuidMap&lt;number&gt;(); counts.set(id, (counts.get(id) ?? 0) + 1)</code></p>
+ */
+export class UuidMap<V> implements Iterable<[Uuid, V]> {
+  private readonly buckets = new Map<number, UuidMapEntry<V>[]>()
+  private readonly ordered = new Set<UuidMapEntry<V>>()
+
+  /**
+   * Creates a new map.
+   * @param entries The initial keys and values, a later value replaces an earlier one of an equal key.
+   */
+  constructor(entries?: Iterable<readonly [Uuid, V]>) {
+    for (const [key, value] of entries ?? []) {
+      this.set(key, value)
+    }
+  }
+
+  /**
+   * The number of keys in the map.
+   */
+  get size(): number {
+    return this.ordered.size
+  }
+
+  /**
+   * Returns the value of the key, or undefined when the map doesn't have it.
+   * @param key The uuid.
+   */
+  get(key: Uuid): V | undefined {
+    return this.find(key)?.value
+  }
+
+  /**
+   * Returns true if the map has a key equal to the uuid.
+   * @param key The uuid.
+   */
+  has(key: Uuid): boolean {
+    return this.find(key) !== undefined
+  }
+
+  /**
+   * Sets the value of the key.
+   * When the map already has an equal key, it keeps that key and its position and only replaces the value.
+   * @param key The uuid.
+   * @param value The value.
+   */
+  set(key: Uuid, value: V): this {
+    const entry = this.find(key)
+    if (entry) {
+      entry.value = value
+      return this
+    }
+    const hash = key.hashCode()
+    const created = { key, value }
+    const bucket = this.buckets.get(hash)
+    if (bucket) {
+      bucket.push(created)
+    } else {
+      this.buckets.set(hash, [created])
+    }
+    this.ordered.add(created)
+    return this
+  }
+
+  /**
+   * Removes the key and its value.
+   * @param key The uuid.
+   * @returns True if the map had the key.
+   */
+  delete(key: Uuid): boolean {
+    const hash = key.hashCode()
+    const bucket = this.buckets.get(hash)
+    const index = bucket ? bucket.findIndex((entry) => entry.key.equals(key)) : -1
+    if (!bucket || index < 0) {
+      return false
+    }
+    this.ordered.delete(bucket[index])
+    if (bucket.length === 1) {
+      this.buckets.delete(hash)
+    } else {
+      bucket.splice(index, 1)
+    }
+    return true
+  }
+
+  /**
+   * Removes all the keys.
+   */
+  clear(): void {
+    this.buckets.clear()
+    this.ordered.clear()
+  }
+
+  /**
+   * Returns the keys, in insertion order.
+   */
+  *keys(): IterableIterator<Uuid> {
+    for (const entry of this.ordered) {
+      yield entry.key
+    }
+  }
+
+  /**
+   * Returns the values, in insertion order of their keys.
+   */
+  *values(): IterableIterator<V> {
+    for (const entry of this.ordered) {
+      yield entry.value
+    }
+  }
+
+  /**
+   * Returns the keys and their values, in insertion order.
+   */
+  *entries(): IterableIterator<[Uuid, V]> {
+    for (const entry of this.ordered) {
+      yield [entry.key, entry.value]
+    }
+  }
+
+  /**
+   * Calls the function with each value and key, in insertion order.
+   * @param callback The function to call.
+   */
+  forEach(callback: (value: V, key: Uuid, map: UuidMap<V>) => void): void {
+    for (const entry of this.ordered) {
+      callback(entry.value, entry.key, this)
+    }
+  }
+
+  /**
+   * Returns the keys and their values, in insertion order.
+   */
+  [Symbol.iterator](): IterableIterator<[Uuid, V]> {
+    return this.entries()
+  }
+
+  private find(key: Uuid): UuidMapEntry<V> | undefined {
+    return this.buckets.get(key.hashCode())?.find((entry) => entry.key.equals(key))
+  }
+}
+
+/**
+ * Set of uuids compared by value instead of identity, to deduplicate ids without converting them to strings.
+ * <p>Iteration follows the insertion order, as for a Set.</p>
+ * <p>Usage: <code>const seen = new UuidSet(); if (!seen.has(event.id)) { seen.add(event.id) }</code></p>
+ */
+export class UuidSet implements Iterable<Uuid> {
+  private readonly map = new UuidMap<true>()
+
+  /**
+   * Creates a new set.
+   * @param values The initial uuids, only the first of equal uuids is kept.
+   */
+  constructor(values?: Iterable<Uuid>) {
+    for (const value of values ?? []) {
+      this.add(value)
+    }
+  }
+
+  /**
+   * The number of uuids in the set.
+   */
+  get size(): number {
+    return this.map.size
+  }
+
+  /**
+   * Adds the uuid, unless the set already has an equal one.
+   * @param value The uuid.
+   */
+  add(value: Uuid): this {
+    this.map.set(value, true)
+    return this
+  }
+
+  /**
+   * Returns true if the set has a uuid equal to the value.
+   * @param value The uuid.
+   */
+  has(value: Uuid): boolean {
+    return this.map.has(value)
+  }
+
+  /**
+   * Removes the uuid equal to the value.
+   * @param value The uuid.
+   * @returns True if the set had the uuid.
+   */
+  delete(value: Uuid): boolean {
+    return this.map.delete(value)
+  }
+
+  /**
+   * Removes all the uuids.
+   */
+  clear(): void {
+    this.map.clear()
+  }
+
+  /**
+   * Returns the uuids, in insertion order.
+   */
+  values(): IterableIterator<Uuid> {
+    return this.map.keys()
+  }
+
+  /**
+   * Calls the function with each uuid, in insertion order.
+   * @param callback The function to call.
+   */
+  forEach(callback: (value: Uuid, set: UuidSet) => void): void {
+    this.map.forEach((_, key) => callback(key, this))
+  }
+
+  /**
+   * Returns the uuids, in insertion order.
+   */
+  [Symbol.iterator](): IterableIterator<Uuid> {
+    return this.values()
+  }
+}
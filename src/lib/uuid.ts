@@ -15,56 +15,282 @@
  */
 "use strict"
 
-import * as crypto from "node:crypto"
-import { Buffer } from "node:buffer"
+import type { Buffer } from "node:buffer"
+
+import { compareBytes, equalBytes, fromHex, getDataView, toBuffer, toHex } from "./bytes.ts"
+import { decodeBase32, decodeBase58, decodeBase64Url, encodeBase32, encodeBase58, encodeBase64Url } from "./encoding.ts"
+import { InvalidUuidFormatError, UuidError } from "./errors.ts"
+import { md5, sha1 } from "./hash.ts"
+import { CryptoRandom, type RandomSource } from "./random.ts"
 
 /** @module types */
 
+/**
+ * Random source used when none is provided
+ * @private
+ */
+const _cryptoRandom = new CryptoRandom()
+
+/**
+ * Symbols of the custom inspection methods called by <code>util.inspect()</code> in Node.js and by
+ * <code>console.log()</code> in Deno
+ * @private
+ */
+const _nodeInspect: unique symbol = Symbol.for("nodejs.util.inspect.custom")
+const _denoInspect: unique symbol = Symbol.for("Deno.customInspect")
+
+/**
+ * Accepted string representations: canonical, 32 hex without hyphens, braced and URN
+ * @private
+ */
+const _uuidPatterns = [
+  /^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})$/i,
+  /^([0-9a-f]{8})([0-9a-f]{4})([0-9a-f]{4})([0-9a-f]{4})([0-9a-f]{12})$/i,
+  /^\{([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})\}$/i,
+  /^urn:uuid:([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})$/i,
+]
+
+/**
+ * Options to create a name-based uuid
+ */
+export interface UuidFromNameOptions {
+  /**
+   * 3 to hash with MD5 or 5 to hash with SHA-1, defaults to 5 as recommended by RFC 4122.
+   */
+  version?: 3 | 5
+}
+
+/**
+ * Variant of a uuid, as described in RFC 4122 section 4.1.1
+ */
+export type UuidVariant = "ncs" | "rfc4122" | "microsoft" | "future"
+
 /**
  * Represents an immutable universally unique identifier (UUID).
  * A UUID represents a 128-bit value.
+ * <p>
+ *   Instances copy the bytes they are created from and only hand out copies, so changing a Buffer never changes a
+ *   Uuid. Use <code>equals()</code> and <code>hashCode()</code>, or a UuidMap and UuidSet, to compare them by value.
+ * </p>
  */
 export class Uuid {
-  protected buffer: Buffer
+  /**
+   * Factories of the subclasses returned by <code>parse()</code>, by version
+   */
+  private static readonly versions = new Map<number, (bytes: Uint8Array) => Uuid>()
+
+  /**
+   * The Nil uuid, with all 128 bits set to zero: 00000000-0000-0000-0000-000000000000
+   */
+  static readonly NIL: Uuid = new Uuid(new Uint8Array(16))
+
+  /**
+   * The Max uuid, with all 128 bits set to one: ffffffff-ffff-ffff-ffff-ffffffffffff
+   */
+  static readonly MAX: Uuid = new Uuid(new Uint8Array(16).fill(0xff))
+
+  /**
+   * Namespace for fully-qualified domain names, as defined in RFC 4122 appendix C
+   */
+  static readonly NAMESPACE_DNS: Uuid = Uuid.fromString("6ba7b810-9dad-11d1-80b4-00c04fd430c8")
+
+  /**
+   * Namespace for URLs, as defined in RFC 4122 appendix C
+   */
+  static readonly NAMESPACE_URL: Uuid = Uuid.fromString("6ba7b811-9dad-11d1-80b4-00c04fd430c8")
+
+  /**
+   * Namespace for ISO OIDs, as defined in RFC 4122 appendix C
+   */
+  static readonly NAMESPACE_OID: Uuid = Uuid.fromString("6ba7b812-9dad-11d1-80b4-00c04fd430c8")
+
+  /**
+   * Namespace for X.500 DNs, in DER or text output format, as defined in RFC 4122 appendix C
+   */
+  static readonly NAMESPACE_X500: Uuid = Uuid.fromString("6ba7b814-9dad-11d1-80b4-00c04fd430c8")
+
+  protected readonly bytes: Uint8Array
 
   /**
-   * Creates a new instance of Uuid based on a Buffer
-   * @param buffer The 16-length buffer.
+   * Creates a new instance of Uuid based on its 16 bytes
+   * @param bytes The 16-length Uint8Array, or Buffer, which is copied.
    */
-  constructor(buffer: Buffer) {
-    if (!buffer || buffer.length !== 16) {
-      throw new Error("You must provide a buffer containing 16 bytes")
+  constructor(bytes: Uint8Array) {
+    if (!(bytes instanceof Uint8Array) || bytes.length !== 16) {
+      throw new InvalidUuidFormatError("You must provide a buffer containing 16 bytes", bytes)
     }
-    this.buffer = buffer
+    this.bytes = new Uint8Array(bytes)
   }
 
   /**
-   * Parses a string representation of a Uuid
+   * Parses a string representation of a Uuid, in any case, in the canonical form
+   * 00000000-0000-0000-0000-000000000000, as 32 hex without hyphens, braced as {00000000-0000-0000-0000-000000000000}
+   * or as an URN urn:uuid:00000000-0000-0000-0000-000000000000
    * @param value The string representation of UUID
    * @returns A new Uuid instance
+   * @throws {InvalidUuidFormatError} When the value is not in one of the accepted forms
    */
   static fromString(value: string): Uuid {
-    //36 chars: 32 + 4 hyphens
-    if (typeof value !== "string" || value.length !== 36) {
-      throw new Error("Invalid string representation of Uuid, it should be in the 00000000-0000-0000-0000-000000000000")
+    const hex = getHexFromString(value)
+    if (hex === undefined) {
+      throw new InvalidUuidFormatError(
+        "Invalid string representation of Uuid, it should be in the 00000000-0000-0000-0000-000000000000",
+        value,
+      )
+    }
+    return new Uuid(fromHex(hex))
+  }
+
+  /**
+   * Parses a string representation of a Uuid into the subclass for its version, such as a TimeUuid for a version 1
+   * uuid, or a plain Uuid when there is no subclass for the version.
+   * @param value The string representation of UUID, in any of the forms accepted by <code>fromString()</code>
+   * @throws {InvalidUuidFormatError} When the value is not in one of the accepted forms
+   */
+  static parse(value: string): Uuid {
+    const uuid = Uuid.fromString(value)
+    const factory = Uuid.versions.get(uuid.getVersion())
+    return factory ? factory(uuid.bytes) : uuid
+  }
+
+  /**
+   * Registers the subclass returned by <code>parse()</code> for a version, the subclasses of this library register
+   * themselves when they are loaded.
+   * @param version The version of the uuids
+   * @param factory Creates an instance of the subclass from the 16 bytes
+   */
+  static registerVersion(version: number, factory: (bytes: Uint8Array) => Uuid): void {
+    Uuid.versions.set(version, factory)
+  }
+
+  /**
+   * Parses a string representation of a Uuid, returning undefined instead of throwing when it is not valid.
+   * When called on a subclass, such as <code>TimeUuid.tryParse()</code>, it returns an instance of that subclass.
+   * @param value The string representation of UUID
+   */
+  static tryParse<T extends Uuid>(this: { fromString(value: string): T }, value: string): T | undefined {
+    try {
+      return this.fromString(value)
+    } catch (error) {
+      if (error instanceof UuidError) {
+        return undefined
+      }
+      throw error
     }
-    return new Uuid(Buffer.from(value.replace(/-/g, ""), "hex"))
+  }
+
+  /**
+   * Returns true if the value is a string representation of a Uuid accepted by <code>fromString()</code>.
+   * @param value The value to test
+   */
+  static isValid(value: unknown): boolean {
+    return getHexFromString(value) !== undefined
+  }
+
+  /**
+   * Compares two uuids lexicographically by their bytes as unsigned values, which is also the order of their string
+   * representations.
+   * @returns -1 if a is before b, 1 if a is after b, or 0 if they are equal.
+   */
+  static compare(a: Uuid, b: Uuid): number {
+    return Math.sign(compareBytes(a.bytes, b.bytes))
   }
 
   /**
    * Creates a new random (version 4) Uuid.
+   * @param random The source of the random bytes, if not provided, it will use <code>crypto.getRandomValues()</code>.
+   */
+  static random(random: RandomSource = _cryptoRandom): Uuid {
+    return createUuidFromBytes(new Uint8Array(random.getRandomBytes(16)), 4)
+  }
+
+  /**
+   * Decodes the 22 characters of <code>toBase64Url()</code>.
+   * When called on a subclass, such as <code>TimeUuid.fromBase64Url()</code>, it returns an instance of that subclass.
+   * @param value The base64url representation
+   * @throws {InvalidUuidFormatError} When the value is malformed or doesn't have 22 characters
+   */
+  static fromBase64Url<T extends Uuid>(this: new (bytes: Uint8Array) => T, value: string): T {
+    return new this(decodeBase64Url(value))
+  }
+
+  /**
+   * Decodes the 22 characters of <code>toBase58()</code>.
+   * When called on a subclass, such as <code>TimeUuid.fromBase58()</code>, it returns an instance of that subclass.
+   * @param value The base58 representation
+   * @throws {InvalidUuidFormatError} When the value is malformed or doesn't have 22 characters
+   */
+  static fromBase58<T extends Uuid>(this: new (bytes: Uint8Array) => T, value: string): T {
+    return new this(decodeBase58(value))
+  }
+
+  /**
+   * Decodes the 26 characters of <code>toBase32()</code>, in any case.
+   * When called on a subclass, such as <code>TimeUuid.fromBase32()</code>, it returns an instance of that subclass.
+   * @param value The Crockford base32 representation
+   * @throws {InvalidUuidFormatError} When the value is malformed or doesn't have 26 characters
+   */
+  static fromBase32<T extends Uuid>(this: new (bytes: Uint8Array) => T, value: string): T {
+    return new this(decodeBase32(value))
+  }
+
+  /**
+   * Creates a name-based (version 3 or 5) Uuid, as described in RFC 4122 section 4.3.
+   * The same name in the same namespace always gives the same Uuid.
+   * @param name The name, strings are encoded as UTF-8
+   * @param namespace The namespace, such as <code>Uuid.NAMESPACE_DNS</code>, or its string representation
+   * @param options Use <code>{ version: 3 }</code> to hash with MD5 instead of SHA-1
    */
-  static random(): Uuid {
-    const buffer = getRandomBytes()
-    return createUuidFromBuffer(buffer!)
+  static fromName(name: string | Uint8Array, namespace: Uuid | string, options: UuidFromNameOptions = {}): Uuid {
+    const version = options.version ?? 5
+    const namespaceBytes = typeof namespace === "string" ? Uuid.fromString(namespace).bytes : namespace.bytes
+    const nameBytes = typeof name === "string" ? new TextEncoder().encode(name) : name
+    const data = new Uint8Array(namespaceBytes.length + nameBytes.length)
+    data.set(namespaceBytes)
+    data.set(nameBytes, namespaceBytes.length)
+    const digest = version === 3 ? md5(data) : sha1(data)
+    return createUuidFromBytes(digest.subarray(0, 16), version)
   }
 
   /**
    * Gets the bytes representation of a Uuid
-   * @returns The buffer containing the bytes
+   * @returns A new Uint8Array containing the 16 bytes
+   */
+  getBytes(): Uint8Array {
+    return new Uint8Array(this.bytes)
+  }
+
+  /**
+   * Gets the bytes representation of a Uuid as a Node.js Buffer.
+   * In runtimes without Buffer, such as browsers, it returns a Uint8Array as <code>getBytes()</code>.
+   * @returns A new buffer containing the bytes
    */
   getBuffer(): Buffer {
-    return this.buffer
+    return toBuffer(new Uint8Array(this.bytes))
+  }
+
+  /**
+   * Returns the version of the uuid, stored in the most significant 4 bits of the 7th byte.
+   */
+  getVersion(): number {
+    return this.bytes[6] >> 4
+  }
+
+  /**
+   * Returns the variant of the uuid, stored in the most significant bits of the 9th byte.
+   */
+  getVariant(): UuidVariant {
+    const value = this.bytes[8]
+    if ((value & 0x80) === 0x00) {
+      return "ncs"
+    }
+    if ((value & 0xc0) === 0x80) {
+      return "rfc4122"
+    }
+    if ((value & 0xe0) === 0xc0) {
+      return "microsoft"
+    }
+    return "future"
   }
 
   /**
@@ -74,7 +300,26 @@ export class Uuid {
    * @param other The other value to test for equality.
    */
   equals(other: Uuid): boolean {
-    return other instanceof Uuid && this.buffer.equals(other.buffer)
+    return other instanceof Uuid && equalBytes(this.bytes, other.bytes)
+  }
+
+  /**
+   * Returns a hash code of the value, the 4 big-endian 32-bit words of the bytes combined with XOR as in Java's
+   * <code>UUID.hashCode()</code>.
+   * Equal uuids always have the same hash code, whatever their class.
+   */
+  hashCode(): number {
+    const view = getDataView(this.bytes)
+    return (view.getInt32(0) ^ view.getInt32(4) ^ view.getInt32(8) ^ view.getInt32(12)) | 0
+  }
+
+  /**
+   * Compares this uuid with another one, with the same order as <code>Uuid.compare()</code>.
+   * @param other The uuid to compare against
+   * @returns -1 if this uuid is before the other, 1 if it is after, or 0 if they are equal.
+   */
+  compareTo(other: Uuid): number {
+    return Uuid.compare(this, other)
   }
 
   /**
@@ -82,8 +327,8 @@ export class Uuid {
    * 32 hex separated by hyphens, in the form of 00000000-0000-0000-0000-000000000000.
    */
   toString(): string {
-    //32 hex representation of the Buffer
-    const hexValue = getHex(this)
+    //32 hex representation of the bytes
+    const hexValue = getHex(this.bytes)
     return (
       hexValue.substr(0, 8) + "-" +
       hexValue.substr(8, 4) + "-" +
@@ -93,6 +338,27 @@ export class Uuid {
     )
   }
 
+  /**
+   * Returns the 22 characters base64url (RFC 4648 section 5) representation, without padding.
+   */
+  toBase64Url(): string {
+    return encodeBase64Url(this.bytes)
+  }
+
+  /**
+   * Returns the 22 characters base58 representation, left padded with "1" so all values have the same length.
+   */
+  toBase58(): string {
+    return encodeBase58(this.bytes)
+  }
+
+  /**
+   * Returns the 26 characters uppercase Crockford base32 representation, which sorts as the bytes.
+   */
+  toBase32(): string {
+    return encodeBase32(this.bytes)
+  }
+
   /**
    * Provide the name of the constructor and the string representation
    */
@@ -100,6 +366,21 @@ export class Uuid {
     return this.constructor.name + ": " + this.toString()
   }
 
+  /**
+   * Provide the output of <code>inspect()</code> to <code>util.inspect()</code> and <code>console.log()</code> in
+   * Node.js.
+   */
+  [_nodeInspect](): string {
+    return this.inspect()
+  }
+
+  /**
+   * Provide the output of <code>inspect()</code> to <code>Deno.inspect()</code> and <code>console.log()</code> in Deno.
+   */
+  [_denoInspect](): string {
+    return this.inspect()
+  }
+
   /**
    * Returns the string representation.
    * Method used by the native JSON.stringify() to serialize this instance.
@@ -113,30 +394,39 @@ export class Uuid {
  * Returns new Uuid
  * @private
  */
-function createUuidFromBuffer(buffer: Buffer): Uuid {
+function createUuidFromBytes(bytes: Uint8Array, version: number): Uuid {
   //clear the version
-  buffer[6] &= 0x0f
-  //set the version 4
-  buffer[6] |= 0x40
+  bytes[6] &= 0x0f
+  //set the version
+  bytes[6] |= version << 4
   //clear the variant
-  buffer[8] &= 0x3f
+  bytes[8] &= 0x3f
   //set the IETF variant
-  buffer[8] |= 0x80
-  return new Uuid(buffer)
+  bytes[8] |= 0x80
+  return new Uuid(bytes)
 }
 
 /**
  * @private
- * @returns 32 hex representation of the instance, without separators
+ * @returns 32 lowercase hex of a string representation, or undefined if it is not valid
  */
-function getHex(uuid: Uuid): string {
-  return uuid.getBuffer().toString("hex")
+function getHexFromString(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined
+  }
+  for (const pattern of _uuidPatterns) {
+    const match = pattern.exec(value)
+    if (match) {
+      return match.slice(1).join("").toLowerCase()
+    }
+  }
+  return undefined
 }
 
 /**
- * Gets a crypto generated 16 bytes
  * @private
+ * @returns 32 hex representation of the bytes, without separators
  */
-function getRandomBytes(): Buffer {
-  return crypto.randomBytes(16)
+function getHex(bytes: Uint8Array): string {
+  return toHex(bytes)
 }
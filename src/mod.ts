@@ -1,2 +1,11 @@
+export * from "./lib/clock.ts"
+export * from "./lib/clock-state-store.ts"
+export * from "./lib/errors.ts"
+export * from "./lib/node-id.ts"
+export * from "./lib/random.ts"
+export * from "./lib/time-bucket.ts"
 export * from "./lib/time-uuid.ts"
+export * from "./lib/time-uuid-index.ts"
+export * from "./lib/time-uuid-v7.ts"
 export * from "./lib/uuid.ts"
+export * from "./lib/uuid-collections.ts"
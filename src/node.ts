@@ -0,0 +1,49 @@
+/**
+ * Entry point for Node.js, including the versions before 20.16 without <code>process.getBuiltinModule()</code>.
+ * It exports the same API as the main entry point, with the <code>node:fs</code> and <code>node:os</code> backed
+ * features wired to static imports of those modules, so the main entry point stays free of Node.js built-ins.
+ * Node.js 18 only provides Web Crypto as <code>webcrypto</code> of <code>node:crypto</code>, so the entry point also
+ * makes it the fallback of the default random sources, without changing <code>globalThis</code>.
+ * <p>Usage: <code>import { FileClockStateStore, NodeId } from "@flowcore/time-uuid/node"</code></p>
+ * @module
+ */
+import type { Buffer } from "node:buffer"
+import { webcrypto } from "node:crypto"
+import * as fs from "node:fs"
+import * as os from "node:os"
+
+import { FileClockStateStore as BaseFileClockStateStore } from "./lib/clock-state-store.ts"
+import { type NetworkInterfaces, NodeId as BaseNodeId } from "./lib/node-id.ts"
+import { CryptoRandom } from "./lib/random.ts"
+
+export * from "./mod.ts"
+
+CryptoRandom.setFallbackCrypto(webcrypto)
+
+/**
+ * Clock state store that keeps the state as JSON in a local file, with the statically imported <code>node:fs</code>.
+ */
+export class FileClockStateStore extends BaseFileClockStateStore {
+  /**
+   * Creates a new file store.
+   * @param path The path of the file, it is created on the first save.
+   */
+  constructor(path: string) {
+    super(path, fs)
+  }
+}
+
+/**
+ * Strategies to derive the 6-byte node identifier of version 1 and 6 uuids, reading the network interfaces with the
+ * statically imported <code>node:os</code>.
+ */
+export class NodeId extends BaseNodeId {
+  /**
+   * Returns the MAC address of the first external network interface of the host.
+   * @param interfaces The network interfaces, either grouped by name or as a flat list, defaults to
+   * <code>os.networkInterfaces()</code>.
+   */
+  static override fromMac(interfaces: NetworkInterfaces = os.networkInterfaces()): Buffer {
+    return super.fromMac(interfaces)
+  }
+}
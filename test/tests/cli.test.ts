@@ -0,0 +1,114 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import process from "node:process"
+import { runCli } from "../../src/cli.ts"
+import { TimeUuid, TimeUuidV7, Uuid } from "../../src/mod.ts"
+
+describe("runCli()", () => {
+  it("should print the usage", () => {
+    assertEquals(runCli([]).startsWith("Usage: time-uuid"), true)
+    assertEquals(runCli(["decode", "--help"]).startsWith("Usage: time-uuid"), true)
+  })
+
+  describe("now and random", () => {
+    it("should generate the requested number and version of uuids", () => {
+      const values = runCli(["now", "--count", "3", "--node-id", "host01"]).split("\n")
+      assertEquals(values.length, 3)
+      assertEquals(values.map((value) => TimeUuid.fromString(value).getNodeIdString()), ["host01", "host01", "host01"])
+      assertEquals(TimeUuid.compareStrings(values[0], values[1]), -1)
+      assertEquals(Uuid.parse(runCli(["now", "--version", "7"])) instanceof TimeUuidV7, true)
+      assertEquals(Uuid.fromString(JSON.parse(runCli(["random", "--json"]))[0]).getVersion(), 4)
+      assertThrows(() => runCli(["now", "--version", "2"]), Error, "Invalid version")
+      assertThrows(() => runCli(["now", "--count", "0"]), Error, "Invalid count")
+      assertThrows(() => runCli(["now", "--version", "7", "--node-id", "host01"]), Error, "--node-id")
+      assertThrows(() => runCli(["random", "--node-id", "host01"]), Error, "--node-id")
+      assertThrows(() => runCli(["min", "2025-02-21T10:00Z", "--node-id", "host01"]), Error, "--node-id")
+    })
+  })
+
+  describe("min and max", () => {
+    it("should return the bounds of the date", () => {
+      assertEquals(runCli(["min", "2025-02-21T10:00Z"]), "9cba5000-f03a-11ef-8080-808080808080")
+      assertEquals(runCli(["max", "2025-02-21T10:00:00.0009999Z"]), "9cba770f-f03a-11ef-bf7f-7f7f7f7f7f7f")
+      assertEquals(
+        runCli(["max", "2025-02-21T10:00:00.0009999Z", "--version", "6"]),
+        "1eff03a9-cba7-670f-bfff-ffffffffffff",
+      )
+      assertThrows(() => runCli(["min"]), Error, "Missing argument")
+      assertThrows(() => runCli(["min", "yesterday"]), Error, "Invalid date")
+    })
+    it("should keep the sub-millisecond digits and the offset whatever the local time zone", () => {
+      const timeZone = process.env.TZ
+      process.env.TZ = "Pacific/Kiritimati"
+      try {
+        assertEquals(runCli(["min", "2025-02-21T10:00:00.0001234Z"]), "9cba54d2-f03a-11ef-8080-808080808080")
+        assertEquals(runCli(["min", "2025-02-21T11:00:00.0001234+01:00"]), "9cba54d2-f03a-11ef-8080-808080808080")
+        assertEquals(
+          runCli(["min", "2025-02-21T10:00:00.0001234Z", "--version", "6"]).startsWith("1eff03a9-cba5-64d2"),
+          true,
+        )
+        assertEquals(runCli(["max", "2025-02-21T10:00:00.123Z", "--version", "7"]).startsWith("019527f3-217b"), true)
+        assertThrows(() => runCli(["min", "2025-02-21T10:00"]), Error, "Invalid date")
+        assertThrows(() => runCli(["max", "2025-02-21", "--version", "6"]), Error, "Invalid date")
+        assertThrows(() => runCli(["max", "2025-02-21T10:00:00", "--version", "7"]), Error, "Invalid date")
+        assertEquals(
+          runCli(["min", "6000-01-01T00:00Z", "--version", "7"]),
+          TimeUuidV7.min(new Date("6000-01-01T00:00Z")).toString(),
+        )
+        assertThrows(() => runCli(["min", "6000-01-01T00:00Z"]), Error, "Invalid date")
+      } finally {
+        if (timeZone === undefined) {
+          delete process.env.TZ
+        } else {
+          process.env.TZ = timeZone
+        }
+      }
+    })
+  })
+
+  describe("decode", () => {
+    it("should print the fields of a time-based uuid", () => {
+      const decoded = JSON.parse(runCli(["decode", "3d555680-9886-11e4-8101-010101010101", "--json"]))
+      assertEquals(decoded, {
+        uuid: "3d555680-9886-11e4-8101-010101010101",
+        version: 1,
+        variant: "rfc4122",
+        date: "2015-01-10T05:05:05.0000000Z",
+        ticks: 0,
+        timestamp: "136401591050000000",
+        clockId: "8101",
+        nodeId: "010101010101",
+      })
+      const text = runCli(["decode", "1e498863-d555-6680-8101-010101010101"])
+      assertEquals(text.split("\n")[1], "version    6")
+      assertEquals(text.split("\n")[3], "date       2015-01-10T05:05:05.0000000Z")
+    })
+    it("should read the other formats", () => {
+      const decoded = JSON.parse(runCli(["decode", "PVVWgJiGEeSBAQEBAQEBAQ", "--from", "base64url", "--json"]))
+      assertEquals(decoded.uuid, "3d555680-9886-11e4-8101-010101010101")
+      assertThrows(() => runCli(["decode", "x", "--from", "base99"]), Error, "Invalid format")
+    })
+  })
+
+  describe("convert", () => {
+    it("should print every format or the requested one", () => {
+      const converted = JSON.parse(runCli(["convert", "3d555680-9886-11e4-8101-010101010101", "--json"]))
+      assertEquals(converted.hex, "3d555680988611e48101010101010101")
+      assertEquals(converted.v6, "1e498863-d555-6680-8101-010101010101")
+      assertEquals(converted.v1, undefined)
+      assertEquals(
+        runCli(["convert", "1e498863-d555-6680-8101-010101010101", "--to", "v1"]),
+        "3d555680-9886-11e4-8101-010101010101",
+      )
+      assertEquals(
+        runCli(["convert", converted.base32, "--from", "base32", "--to", "urn"]),
+        `urn:uuid:${converted.string}`,
+      )
+      assertThrows(() => runCli(["convert", Uuid.random().toString(), "--to", "v6"]), Error, "can't be converted")
+    })
+  })
+
+  it("should reject unknown commands", () => {
+    assertThrows(() => runCli(["explode"]), Error, "Unknown command")
+  })
+})
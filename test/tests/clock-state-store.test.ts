@@ -0,0 +1,42 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { FileClockStateStore, MemoryClockStateStore } from "../../src/mod.ts"
+
+describe("MemoryClockStateStore", () => {
+  describe("#load()", () => {
+    it("should return the initial or last saved state", () => {
+      assertEquals(new MemoryClockStateStore().load(), undefined)
+      const store = new MemoryClockStateStore({ clockSequence: 1, timestamp: 2 })
+      assertEquals(store.load(), { clockSequence: 1, timestamp: 2 })
+      store.save({ clockSequence: 3, timestamp: 4, nodeId: "010203040506" })
+      assertEquals(store.load(), { clockSequence: 3, timestamp: 4, nodeId: "010203040506" })
+    })
+  })
+})
+
+describe("FileClockStateStore", () => {
+  const createPath = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), "time-uuid-")), "clock-state.json")
+
+  describe("#load()", () => {
+    it("should return undefined when the file does not exist", () => {
+      assertEquals(new FileClockStateStore(createPath()).load(), undefined)
+    })
+    it("should reject a file that does not contain a clock state", () => {
+      const file = createPath()
+      fs.writeFileSync(file, JSON.stringify({ clockSequence: "1" }))
+      assertThrows(() => new FileClockStateStore(file).load())
+    })
+  })
+
+  describe("#save()", () => {
+    it("should persist the state for another store on the same file", () => {
+      const file = createPath()
+      new FileClockStateStore(file).save({ clockSequence: 42, timestamp: 1740132000000 })
+      assertEquals(new FileClockStateStore(file).load(), { clockSequence: 42, timestamp: 1740132000000 })
+      assertEquals(fs.existsSync(`${file}.tmp`), false)
+    })
+  })
+})
@@ -0,0 +1,37 @@
+import { assertEquals } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import { FakeClock, SystemClock } from "../../src/mod.ts"
+
+describe("SystemClock", () => {
+  describe("#now()", () => {
+    it("should return the current milliseconds", () => {
+      const start = Date.now()
+      const now = new SystemClock().now()
+      assertEquals(now >= start && now <= Date.now(), true)
+    })
+  })
+})
+
+describe("FakeClock", () => {
+  describe("#now()", () => {
+    it("should stay fixed without a step", () => {
+      const clock = new FakeClock(new Date("2025-02-21T10:00:00Z"))
+      assertEquals(clock.now(), Date.UTC(2025, 1, 21, 10))
+      assertEquals(clock.now(), Date.UTC(2025, 1, 21, 10))
+    })
+    it("should advance by the step after each call", () => {
+      const clock = new FakeClock(1000, 5)
+      assertEquals([clock.now(), clock.now(), clock.now()], [1000, 1005, 1010])
+    })
+  })
+
+  describe("#set() and #advance()", () => {
+    it("should move the clock", () => {
+      const clock = new FakeClock()
+      clock.set(new Date(2000))
+      assertEquals(clock.now(), 2000)
+      clock.advance(-500)
+      assertEquals(clock.now(), 1500)
+    })
+  })
+})
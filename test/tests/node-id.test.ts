@@ -0,0 +1,79 @@
+import { assertEquals, assertNotEquals, assertThrows } from "jsr:@std/assert"
+import { afterEach, describe, it } from "jsr:@std/testing/bdd"
+import { Buffer } from "node:buffer"
+import { NodeId, SeededRandom, TimeUuid, TimeUuidGenerator } from "../../src/mod.ts"
+
+describe("NodeId", () => {
+  describe("fromMac()", () => {
+    it("should return the MAC of the first external interface", () => {
+      const mac = NodeId.fromMac({
+        lo: [
+          {
+            address: "127.0.0.1",
+            netmask: "255.0.0.0",
+            family: "IPv4",
+            mac: "00:00:00:00:00:00",
+            internal: true,
+            cidr: null,
+          },
+        ],
+        eth0: [
+          {
+            address: "10.0.0.2",
+            netmask: "255.0.0.0",
+            family: "IPv4",
+            mac: "02:42:ac:11:00:02",
+            internal: false,
+            cidr: null,
+          },
+        ],
+      })
+      assertEquals(mac.toString("hex"), "0242ac110002")
+    })
+    it("should throw when there is no external interface", () => {
+      assertThrows(() => NodeId.fromMac({}))
+    })
+  })
+
+  describe("fromName()", () => {
+    it("should hash names of any length and set the multicast bit", () => {
+      const val = NodeId.fromName("worker-12")
+      assertEquals(val.length, 6)
+      assertEquals(val[0] & 0x01, 1)
+      assertEquals(val.toString("hex"), NodeId.fromName("worker-12").toString("hex"))
+      assertNotEquals(val.toString("hex"), NodeId.fromName("worker-13").toString("hex"))
+    })
+  })
+
+  describe("random()", () => {
+    it("should set the multicast bit", () => {
+      for (let i = 0; i < 10; i++) {
+        assertEquals(NodeId.random()[0] & 0x01, 1)
+      }
+      assertEquals(NodeId.random(new SeededRandom(3)), NodeId.random(new SeededRandom(3)))
+    })
+  })
+
+  describe("setDefault()", () => {
+    afterEach(() => NodeId.setDefault(undefined))
+
+    it("should be used by generators without a node id of their own", () => {
+      const nodeId = NodeId.fromName("worker-12")
+      NodeId.setDefault(nodeId)
+      assertEquals(NodeId.getDefault(), nodeId)
+      assertEquals(TimeUuid.now().getNodeId().toString("hex"), nodeId.toString("hex"))
+      assertEquals(new TimeUuidGenerator().now().getNodeId().toString("hex"), nodeId.toString("hex"))
+      assertEquals(new TimeUuidGenerator({ nodeId: "host01" }).now().getNodeIdString(), "host01")
+      assertEquals(TimeUuid.now("host02").getNodeIdString(), "host02")
+    })
+    it("should go back to random node ids when cleared", () => {
+      NodeId.setDefault("host01")
+      NodeId.setDefault(undefined)
+      assertEquals(NodeId.getDefault(), undefined)
+      assertNotEquals(TimeUuid.now().getNodeIdString(), "host01")
+    })
+    it("should validate the node id", () => {
+      assertThrows(() => NodeId.setDefault(Buffer.from([1, 2, 3])))
+    })
+  })
+})
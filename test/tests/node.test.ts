@@ -0,0 +1,97 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import process from "node:process"
+import { FileClockStateStore as CoreFileClockStateStore, NodeId as CoreNodeId } from "../../src/mod.ts"
+import { FileClockStateStore, NodeId, TimeUuidGenerator, Uuid } from "../../src/node.ts"
+
+/**
+ * Runs the test as on Node.js before 20.16, without process.getBuiltinModule()
+ */
+function withoutGetBuiltinModule(fn: () => void): () => void {
+  return () => {
+    const runtime = process as { getBuiltinModule?: unknown }
+    const getBuiltinModule = runtime.getBuiltinModule
+    runtime.getBuiltinModule = undefined
+    try {
+      fn()
+    } finally {
+      runtime.getBuiltinModule = getBuiltinModule
+    }
+  }
+}
+
+/**
+ * Runs the test as on Node.js 18, without globalThis.crypto
+ */
+function withoutGlobalCrypto(fn: () => void): () => void {
+  return () => {
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, "crypto")!
+    Object.defineProperty(globalThis, "crypto", { value: undefined, configurable: true })
+    try {
+      fn()
+    } finally {
+      Object.defineProperty(globalThis, "crypto", descriptor)
+    }
+  }
+}
+
+describe("node entry point without globalThis.crypto", () => {
+  it(
+    "should draw the random bytes from webcrypto of node:crypto",
+    withoutGlobalCrypto(() => {
+      assertEquals(globalThis.crypto, undefined)
+      assertEquals(Uuid.random().getVersion(), 4)
+      assertEquals(new TimeUuidGenerator().now().getVersion(), 1)
+    }),
+  )
+})
+
+describe("node entry point without process.getBuiltinModule()", () => {
+  const createPath = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), "time-uuid-")), "clock-state.json")
+
+  it(
+    "should not find the built-in modules from the main entry point",
+    withoutGetBuiltinModule(() => {
+      assertThrows(() => new CoreFileClockStateStore(createPath()).load(), Error, "not available in this runtime")
+      assertThrows(() => CoreNodeId.fromMac(), Error, "not available in this runtime")
+    }),
+  )
+
+  it(
+    "should save and load the clock state with the statically imported node:fs",
+    withoutGetBuiltinModule(() => {
+      const file = createPath()
+      const store = new FileClockStateStore(file)
+      assertEquals(store.load(), undefined)
+      store.save({ clockSequence: 42, timestamp: 1740132000000 })
+      assertEquals(new FileClockStateStore(file).load(), { clockSequence: 42, timestamp: 1740132000000 })
+      const generator = new TimeUuidGenerator({ stateStore: new FileClockStateStore(file), nodeId: "host01" })
+      assertEquals(generator.now().getClockId().toString("hex"), "802a")
+    }),
+  )
+
+  it(
+    "should accept the file functions in the store of the main entry point",
+    withoutGetBuiltinModule(() => {
+      const file = createPath()
+      new CoreFileClockStateStore(file, fs).save({ clockSequence: 7, timestamp: 0 })
+      assertEquals(new CoreFileClockStateStore(file, fs).load(), { clockSequence: 7, timestamp: 0 })
+    }),
+  )
+
+  it(
+    "should read the network interfaces with the statically imported node:os",
+    withoutGetBuiltinModule(() => {
+      const interfaces = Object.values(os.networkInterfaces()).flatMap((list) => list ?? [])
+      const external = interfaces.find((address) => !address.internal && address.mac !== "00:00:00:00:00:00")
+      if (external) {
+        assertEquals(NodeId.fromMac().toString("hex"), external.mac.replace(/:/g, ""))
+      } else {
+        assertThrows(() => NodeId.fromMac(), Error, "No network interface with a MAC address was found")
+      }
+    }),
+  )
+})
@@ -0,0 +1,59 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import { CryptoRandom, PooledRandom, SeededRandom } from "../../src/mod.ts"
+
+describe("CryptoRandom", () => {
+  describe("#getRandomBytes()", () => {
+    it("should return the requested amount of bytes", () => {
+      assertEquals(new CryptoRandom().getRandomBytes(6).length, 6)
+    })
+    it("should fill more bytes than a single getRandomValues() call allows", () => {
+      const bytes = new CryptoRandom().getRandomBytes(70000)
+      assertEquals(bytes.length, 70000)
+      assertNotEquals(bytes.subarray(65536), new Uint8Array(70000 - 65536))
+    })
+    it("should use the provided Web Crypto implementation", () => {
+      const crypto = { getRandomValues: (array: Uint8Array) => array.fill(7) }
+      assertEquals(new CryptoRandom(crypto).getRandomBytes(3), new Uint8Array([7, 7, 7]))
+    })
+  })
+})
+
+describe("PooledRandom", () => {
+  describe("#getRandomBytes()", () => {
+    it("should hand out the bytes of the source in order, filling a new pool when needed", () => {
+      let calls = 0
+      const source = {
+        getRandomBytes(length: number) {
+          calls++
+          return new SeededRandom(calls).getRandomBytes(length)
+        },
+      }
+      const random = new PooledRandom(source, 16)
+      const expected = new SeededRandom(1).getRandomBytes(16)
+      const first = random.getRandomBytes(6)
+      assertEquals(first, expected.subarray(0, 6))
+      assertEquals(random.getRandomBytes(10), expected.subarray(6, 16))
+      assertEquals(calls, 1)
+      assertEquals(random.getRandomBytes(6), new SeededRandom(2).getRandomBytes(6))
+      assertEquals(calls, 2)
+      assertEquals(first, expected.subarray(0, 6))
+      assertEquals(random.getRandomBytes(20).length, 20)
+      assertEquals(calls, 3)
+    })
+  })
+})
+
+describe("SeededRandom", () => {
+  describe("#getRandomBytes()", () => {
+    it("should return the same sequence for the same seed", () => {
+      const first = new SeededRandom(42)
+      const second = new SeededRandom(42)
+      assertEquals(first.getRandomBytes(7), second.getRandomBytes(7))
+      assertEquals(first.getRandomBytes(16), second.getRandomBytes(16))
+    })
+    it("should return different sequences for different seeds", () => {
+      assertNotEquals(new SeededRandom(1).getRandomBytes(16), new SeededRandom(2).getRandomBytes(16))
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import { TimeBucketer, TimeUuid } from "../../src/mod.ts"
+
+describe("TimeBucketer", () => {
+  describe("constructor()", () => {
+    it("should reject unknown units and time zones", () => {
+      assertThrows(() => new TimeBucketer({ unit: "week" as "day" }), RangeError)
+      assertThrows(() => new TimeBucketer({ unit: "day", timeZone: "Nowhere/Special" }), RangeError)
+    })
+  })
+
+  describe("#getKey()", () => {
+    it("should return the UTC key of each unit", () => {
+      const date = new Date("2025-02-21T13:45:30.123Z")
+      const id = TimeUuid.fromDate(date, 0, "host01", "AA")
+      assertEquals(new TimeBucketer({ unit: "minute" }).getKey(id), "2025-02-21T13:45")
+      assertEquals(new TimeBucketer({ unit: "hour" }).getKey(id), "2025-02-21T13")
+      assertEquals(new TimeBucketer({ unit: "day" }).getKey(id), "2025-02-21")
+      assertEquals(new TimeBucketer({ unit: "month" }).getKey(date), "2025-02")
+    })
+    it("should use the local time of the time zone", () => {
+      const date = new Date("2025-02-28T23:30:00.000Z")
+      assertEquals(new TimeBucketer({ unit: "day", timeZone: "Europe/Copenhagen" }).getKey(date), "2025-03-01")
+      assertEquals(new TimeBucketer({ unit: "month", timeZone: "Europe/Copenhagen" }).getKey(date), "2025-03")
+      assertEquals(new TimeBucketer({ unit: "hour", timeZone: "Asia/Kolkata" }).getKey(date), "2025-03-01T05")
+      assertEquals(new TimeBucketer({ unit: "day", timeZone: "America/New_York" }).getKey(date), "2025-02-28")
+    })
+  })
+
+  describe("#getBucket()", () => {
+    it("should return the start, end and TimeUuid bounds of the bucket", () => {
+      const id = TimeUuid.fromDate(new Date("2025-02-21T13:45:30.123Z"), 0, "host01", "AA")
+      const bucket = new TimeBucketer({ unit: "hour" }).getBucket(id)
+      assertEquals(bucket.key, "2025-02-21T13")
+      assertEquals(bucket.start.toISOString(), "2025-02-21T13:00:00.000Z")
+      assertEquals(bucket.end.toISOString(), "2025-02-21T14:00:00.000Z")
+      assertEquals(bucket.min.equals(TimeUuid.min(bucket.start, 0)), true)
+      assertEquals(bucket.max.getDatePrecision(), { date: new Date("2025-02-21T13:59:59.999Z"), ticks: 9999 })
+      assertEquals(TimeUuid.compare(bucket.min, id) < 0 && TimeUuid.compare(id, bucket.max) < 0, true)
+    })
+    it("should follow daylight saving time changes", () => {
+      const days = new TimeBucketer({ unit: "day", timeZone: "Europe/Copenhagen" })
+      const spring = days.getBucket(new Date("2025-03-30T12:00:00.000Z"))
+      assertEquals(spring.start.toISOString(), "2025-03-29T23:00:00.000Z")
+      assertEquals(spring.end.toISOString(), "2025-03-30T22:00:00.000Z")
+      const autumn = days.getBucket(new Date("2025-10-26T12:00:00.000Z"))
+      assertEquals(autumn.end.getTime() - autumn.start.getTime(), 25 * 3600000)
+
+      const hours = new TimeBucketer({ unit: "hour", timeZone: "America/New_York" })
+      const repeated = hours.getBucket(new Date("2025-11-02T06:30:00.000Z"))
+      assertEquals(repeated.key, "2025-11-02T01")
+      assertEquals(repeated.start.toISOString(), "2025-11-02T05:00:00.000Z")
+      assertEquals(repeated.end.toISOString(), "2025-11-02T07:00:00.000Z")
+      const beforeSkipped = hours.getBucket(new Date("2025-03-09T06:30:00.000Z"))
+      assertEquals(beforeSkipped.key, "2025-03-09T01")
+      assertEquals(beforeSkipped.end.toISOString(), "2025-03-09T07:00:00.000Z")
+      assertEquals(hours.getKey(beforeSkipped.end), "2025-03-09T03")
+    })
+  })
+
+  describe("#getBuckets()", () => {
+    it("should list every bucket between two ids", () => {
+      const start = TimeUuid.fromDate(new Date("2025-01-30T10:00:00.000Z"), 0, "host01", "AA")
+      const end = TimeUuid.fromDate(new Date("2025-03-01T00:00:00.000Z"), 0, "host01", "AA")
+      const buckets = new TimeBucketer({ unit: "month" }).getBuckets(start, end)
+      assertEquals(buckets.map((bucket) => bucket.key), ["2025-01", "2025-02", "2025-03"])
+      for (let i = 1; i < buckets.length; i++) {
+        assertEquals(buckets[i].start.getTime(), buckets[i - 1].end.getTime())
+        assertEquals(TimeUuid.compare(buckets[i - 1].max, buckets[i].min), -1)
+      }
+      assertEquals(new TimeBucketer({ unit: "day" }).getBuckets(start, start).length, 1)
+      assertThrows(() => new TimeBucketer({ unit: "day" }).getBuckets(end, start), RangeError)
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import { SeededRandom, TimeUuid, TimeUuidIndex } from "../../src/mod.ts"
+
+const start = new Date("2025-02-21T10:00:00Z")
+
+/**
+ * Five TimeUuids, two in each of the first two milliseconds and one in the third, in ascending order
+ */
+function createKeys(): TimeUuid[] {
+  return [
+    TimeUuid.fromDate(start, 0, "node01", "01"),
+    TimeUuid.fromDate(start, 5, "node01", "01"),
+    TimeUuid.fromDate(new Date(start.getTime() + 1), 0, "node01", "01"),
+    TimeUuid.fromDate(new Date(start.getTime() + 1), 0, "node02", "01"),
+    TimeUuid.fromDate(new Date(start.getTime() + 2), 0, "node01", "01"),
+  ]
+}
+
+function createIndex(keys: TimeUuid[]): TimeUuidIndex<number> {
+  return new TimeUuidIndex(keys.map((key, i) => [key, i]))
+}
+
+describe("TimeUuidIndex", () => {
+  describe("#set(), #get() and #delete()", () => {
+    it("should keep the keys in the order of TimeUuid.compare()", () => {
+      const random = new SeededRandom(7)
+      const keys = Array.from(
+        { length: 3000 },
+        (_, i) => TimeUuid.fromDate(new Date(i * 7919 % 3001), 0, random.getRandomBytes(6), random.getRandomBytes(2)),
+      )
+      const index = new TimeUuidIndex<string>()
+      keys.forEach((key) => index.set(key, key.toString()))
+      assertEquals(index.size, 3000)
+      assertEquals([...index.keys()], [...keys].sort(TimeUuid.compare))
+      keys.filter((_, i) => i % 3 === 0).forEach((key) => assertEquals(index.delete(key), true))
+      const remaining = keys.filter((_, i) => i % 3 !== 0).sort(TimeUuid.compare)
+      assertEquals(index.size, remaining.length)
+      assertEquals([...index.keys()], remaining)
+      assertEquals([...index.values()], remaining.map((key) => key.toString()))
+      assertEquals(index.get(remaining[100]), remaining[100].toString())
+      assertEquals(index.has(keys[0]), false)
+      assertEquals(index.get(keys[0]), undefined)
+      assertEquals(index.delete(keys[0]), false)
+    })
+    it("should replace the value of an equal key", () => {
+      const key = TimeUuid.now()
+      const index = new TimeUuidIndex([[key, 1]])
+      index.set(TimeUuid.fromString(key.toString()), 2)
+      assertEquals(index.size, 1)
+      assertEquals(index.get(key), 2)
+    })
+  })
+
+  describe("#first() and #last()", () => {
+    it("should return the smallest and biggest entries", () => {
+      const keys = createKeys()
+      const index = createIndex([...keys].reverse())
+      assertEquals(index.first(), [keys[0], 4])
+      assertEquals(index.last(), [keys[4], 0])
+      index.clear()
+      assertEquals(index.size, 0)
+      assertEquals(index.first(), undefined)
+      assertEquals(index.last(), undefined)
+    })
+  })
+
+  describe("#scan()", () => {
+    it("should return every entry in ascending or descending order", () => {
+      const keys = createKeys()
+      const index = createIndex(keys)
+      assertEquals([...index], keys.map((key, i) => [key, i]))
+      assertEquals([...index.scan({ descending: true })].map(([, value]) => value), [4, 3, 2, 1, 0])
+      assertEquals([...new TimeUuidIndex().scan({ descending: true })], [])
+    })
+    it("should include or exclude TimeUuid bounds", () => {
+      const keys = createKeys()
+      const index = createIndex(keys)
+      const values = (options: Parameters<typeof index.scan>[0]) => [...index.scan(options)].map(([, value]) => value)
+      assertEquals(values({ start: keys[1], end: keys[3] }), [1, 2, 3])
+      assertEquals(values({ start: keys[1], end: keys[3], inclusive: false }), [2])
+      assertEquals(values({ start: keys[1], end: keys[3], descending: true }), [3, 2, 1])
+      assertEquals(values({ start: keys[1], end: keys[3], inclusive: false, descending: true }), [2])
+      assertEquals(values({ start: keys[4], end: keys[0] }), [])
+    })
+    it("should cover the whole milliseconds of Date bounds", () => {
+      const index = createIndex(createKeys())
+      const values = (options: Parameters<typeof index.scan>[0]) => [...index.scan(options)].map(([, value]) => value)
+      const end = new Date(start.getTime() + 1)
+      assertEquals(values({ start, end }), [0, 1, 2, 3])
+      assertEquals(values({ start, end: new Date(start.getTime() + 2), inclusive: false }), [2, 3])
+      assertEquals(values({ start: end }), [2, 3, 4])
+      assertEquals(values({ end, descending: true }), [3, 2, 1, 0])
+    })
+    it("should page after a cursor with a limit", () => {
+      const keys = createKeys()
+      const index = createIndex(keys)
+      const firstPage = [...index.scan({ limit: 2 })]
+      assertEquals(firstPage.map(([, value]) => value), [0, 1])
+      const cursor = firstPage[firstPage.length - 1][0]
+      assertEquals([...index.scan({ start: cursor, inclusive: false, limit: 2 })].map(([, value]) => value), [2, 3])
+      assertEquals([...index.scan({ end: keys[3], descending: true, limit: 3 })].map(([, value]) => value), [3, 2, 1])
+      assertEquals([...index.scan({ limit: 0 })], [])
+      assertThrows(() => index.scan({ limit: -1 }), RangeError)
+      assertThrows(() => index.scan({ limit: 1.5 }), RangeError)
+    })
+  })
+})
@@ -0,0 +1,172 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import { Buffer } from "node:buffer"
+import { FakeClock, SeededRandom, TimeUuidV7, TimeUuidV7Generator } from "../../src/mod.ts"
+
+describe("TimeUuidV7", () => {
+  describe("constructor()", () => {
+    it("should set the version and variant bits", () => {
+      const val = new TimeUuidV7()
+      assertEquals(val.toString().charAt(14), "7")
+      assertEquals(["8", "9", "a", "b"].indexOf(val.toString().charAt(19)) >= 0, true)
+    })
+    it("should store the unix milliseconds in the first 48 bits", () => {
+      const val = new TimeUuidV7(new Date(0x017f22e279b0))
+      assertEquals(val.toString().substring(0, 13), "017f22e2-79b0")
+    })
+  })
+
+  describe("#getDate()", () => {
+    it("should get the Date of the Uuid representation", () => {
+      const date = new Date("2025-02-21T10:00:00.123Z")
+      assertEquals(TimeUuidV7.fromDate(date).getDate().getTime(), date.getTime())
+    })
+  })
+
+  describe("fromDate(), min() and max()", () => {
+    it("should throw a RangeError for dates outside the 48-bit timestamp", () => {
+      const maxTime = 0xffffffffffff
+      assertEquals(TimeUuidV7.min(new Date(0)).getDate().getTime(), 0)
+      assertThrows(() => TimeUuidV7.fromDate(new Date(-1)), RangeError)
+      assertThrows(() => TimeUuidV7.min(new Date(-1)), RangeError)
+      assertThrows(() => TimeUuidV7.max(new Date(maxTime + 1)), RangeError)
+      assertThrows(() => TimeUuidV7.fromDate(new Date(NaN)), RangeError)
+    })
+  })
+
+  describe("fromString()", () => {
+    it("should parse the string representation", () => {
+      const text = "017f22e2-79b0-7cc3-98c4-dc0c0c07398f"
+      const val = TimeUuidV7.fromString(text)
+      assertEquals(val instanceof TimeUuidV7, true)
+      assertEquals(val.toString(), text)
+      assertEquals(val.getDate().getTime(), 0x017f22e279b0)
+    })
+  })
+
+  describe("now()", () => {
+    it("should use current date", () => {
+      const startDate = new Date().getTime()
+      const val = TimeUuidV7.now().getDate().getTime()
+      const endDate = new Date().getTime()
+      assertEquals(val >= startDate, true)
+      assertEquals(val <= endDate + 1, true)
+    })
+    it("should generate strictly increasing values", () => {
+      const values = []
+      for (let i = 0; i < 20000; i++) {
+        values.push(TimeUuidV7.now())
+      }
+      for (let i = 1; i < values.length; i++) {
+        assertEquals(values[i - 1].isBefore(values[i]), true)
+        assertEquals(values[i - 1].toString() < values[i].toString(), true)
+      }
+    })
+  })
+
+  describe("min()", () => {
+    it("should generate the smallest uuid for the date", () => {
+      const date = new Date("2025-02-21T10:00:00.000Z")
+      const val = TimeUuidV7.min(date)
+      assertEquals(val.getBuffer().subarray(6).toString("hex"), "70008000000000000000")
+      assertEquals(val.getDate().getTime(), date.getTime())
+      assertEquals(val.isBefore(TimeUuidV7.fromDate(date)), true)
+    })
+    it("should drop the digits below the millisecond of an ISO 8601 date", () => {
+      const date = new Date("2025-02-21T10:00:00.123Z")
+      assertEquals(TimeUuidV7.min("2025-02-21T11:00:00.1239+01:00").equals(TimeUuidV7.min(date)), true)
+      assertEquals(TimeUuidV7.max("2025-02-21T10:00:00.1234567Z").equals(TimeUuidV7.max(date)), true)
+      assertThrows(() => TimeUuidV7.min("2025-02-21T10:00:00"), RangeError)
+      assertThrows(() => TimeUuidV7.min("1969-12-31T23:59:59.999Z"), RangeError)
+    })
+  })
+
+  describe("max()", () => {
+    it("should generate the biggest uuid for the date", () => {
+      const date = new Date("2025-02-21T10:00:00.000Z")
+      const val = TimeUuidV7.max(date)
+      assertEquals(val.getBuffer().subarray(6).toString("hex"), "7fffbfffffffffffffff")
+      assertEquals(val.getDate().getTime(), date.getTime())
+      assertEquals(val.isAfter(TimeUuidV7.fromDate(date)), true)
+    })
+  })
+
+  describe("sortAscending()", () => {
+    const timeUuids = [
+      { expectedOrder: 2, id: TimeUuidV7.fromDate(new Date(2020, 0, 2, 0, 0, 0, 1)).toString() },
+      { expectedOrder: 1, id: TimeUuidV7.fromDate(new Date(2020, 0, 2, 0, 0, 0, 0)).toString() },
+      { expectedOrder: 0, id: TimeUuidV7.fromDate(new Date(2020, 0, 1, 0, 0, 0, 0)).toString() },
+      { expectedOrder: 3, id: TimeUuidV7.fromDate(new Date(2020, 0, 3, 0, 0, 0, 0)).toString() },
+    ]
+
+    it("should sort the v7 uuids in ascending order", () => {
+      const sorted = structuredClone(timeUuids).sort((a, b) =>
+        TimeUuidV7.sortAscending(TimeUuidV7.fromString(a.id), TimeUuidV7.fromString(b.id))
+      )
+      assertEquals(sorted.map((value) => value.expectedOrder), [0, 1, 2, 3])
+    })
+
+    it("should sort the v7 uuids in descending order", () => {
+      const sorted = structuredClone(timeUuids).sort((a, b) =>
+        TimeUuidV7.sortDescending(TimeUuidV7.fromString(a.id), TimeUuidV7.fromString(b.id))
+      )
+      assertEquals(sorted.map((value) => value.expectedOrder), [3, 2, 1, 0])
+    })
+  })
+
+  describe("#isBefore() and #isAfter()", () => {
+    it("should compare by time", () => {
+      const val1 = TimeUuidV7.fromDate(new Date(2020, 0, 1, 0, 0, 0, 0))
+      const val2 = TimeUuidV7.fromDate(new Date(2020, 0, 1, 0, 0, 0, 1))
+      assertEquals(val1.isBefore(val2), true)
+      assertEquals(val2.isBefore(val1), false)
+      assertEquals(val1.isAfter(val2), false)
+      assertEquals(val2.isAfter(val1), true)
+      assertEquals(Buffer.isBuffer(val1.getBuffer()), true)
+    })
+  })
+})
+
+describe("TimeUuidV7Generator", () => {
+  describe("#now()", () => {
+    it("should be deterministic with a fake clock and a seeded random source", () => {
+      const create = () =>
+        new TimeUuidV7Generator({ clock: new FakeClock(0x017f22e279b0), random: new SeededRandom(7) })
+      const first = create()
+      const values = [first.now(), first.now(), first.now()].map((value) => value.toString())
+      const second = create()
+      assertEquals([second.now(), second.now(), second.now()].map((value) => value.toString()), values)
+      assertEquals(values.map((value) => value.substring(0, 18)), [
+        "017f22e2-79b0-7000",
+        "017f22e2-79b0-7001",
+        "017f22e2-79b0-7002",
+      ])
+    })
+    it("should borrow the next millisecond when the counter is exhausted", () => {
+      const generator = new TimeUuidV7Generator({ clock: new FakeClock(1000) })
+      let value = generator.now()
+      for (let i = 0; i < 0x1000; i++) {
+        value = generator.now()
+      }
+      assertEquals(value.getDate().getTime(), 1001)
+      assertEquals(value.toString().substring(14, 18), "7000")
+    })
+    it("should read the milliseconds of a clock with 100-nanosecond precision", () => {
+      const generator = new TimeUuidV7Generator({ clock: { now: () => 17400000001234567n } })
+      assertEquals(generator.now().getDate().getTime(), 1740000000123)
+    })
+  })
+
+  describe("setDefault()", () => {
+    it("should replace the generator used by the static methods", () => {
+      const previous = TimeUuidV7Generator.getDefault()
+      try {
+        TimeUuidV7Generator.setDefault(new TimeUuidV7Generator({ clock: new FakeClock(5000) }))
+        assertEquals(TimeUuidV7.now().getDate().getTime(), 5000)
+        assertEquals(new TimeUuidV7().getDate().getTime(), 5000)
+      } finally {
+        TimeUuidV7Generator.setDefault(previous)
+      }
+    })
+  })
+})
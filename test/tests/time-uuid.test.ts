@@ -1,7 +1,18 @@
-import { assertEquals } from "jsr:@std/assert"
+import { assertEquals, assertThrows } from "jsr:@std/assert"
 import { describe, it } from "jsr:@std/testing/bdd"
 import { Buffer } from "node:buffer"
-import { TimeUuid } from "../../src/mod.ts"
+import {
+  FakeClock,
+  InvalidUuidFormatError,
+  InvalidUuidVersionError,
+  MemoryClockStateStore,
+  SeededRandom,
+  TimeUuid,
+  TimeUuidGenerator,
+  type TimeUuidRounding,
+  TimeUuidV6,
+  Uuid,
+} from "../../src/mod.ts"
 
 describe("TimeUuid", () => {
   describe("constructor()", () => {
@@ -69,6 +80,153 @@ describe("TimeUuid", () => {
     })
   })
 
+  describe("#describe()", () => {
+    it("should return the fields of the uuid as plain values", () => {
+      const val = new TimeUuid(new Date("2015-01-10T05:05:05.123Z"), 4567, "host01", "AA")
+      assertEquals(val.describe(), {
+        uuid: val.toString(),
+        version: 1,
+        variant: "rfc4122",
+        timestamp: "2015-01-10T05:05:05.1234567Z",
+        ticks: 4567,
+        clockSequence: 0x0141,
+        nodeIdHex: "686f73743031",
+        nodeIdAscii: "host01",
+      })
+      const described = TimeUuid.fromString("3d555680-9886-11e4-bfff-010203ff4142").describe()
+      assertEquals(described.nodeIdAscii, "....AB")
+      assertEquals(described.clockSequence, 0x3fff)
+      assertEquals(described.timestamp, "2015-01-10T05:05:05.0000000Z")
+    })
+  })
+
+  describe("#getTimestamp()", () => {
+    it("should return the 100-nanosecond intervals since the Gregorian epoch", () => {
+      assertEquals(new TimeUuid(new Date(-12219292800000), 0).getTimestamp(), 0n)
+      assertEquals(new TimeUuid(new Date(-12219292800000), 1).getTimestamp(), 1n)
+      assertEquals(new TimeUuid(new Date(0), 42).getTimestamp(), 122192928000000042n)
+      assertEquals(TimeUuid.fromString("3d555680-9886-11e4-8101-010101010101").getTimestamp(), 0x1e498863d555680n)
+    })
+    it("should handle dates before 1970 and the end of the 60-bit range", () => {
+      const date = new Date("1900-01-01T00:00:00.123Z")
+      assertEquals(new TimeUuid(date, 5).getUnixTimestampNanos(), BigInt(date.getTime()) * 1000000n + 500n)
+      const max = TimeUuid.fromTimestamp((1n << 60n) - 1n, "host01", "AA")
+      assertEquals(max.getTimestamp(), (1n << 60n) - 1n)
+      assertEquals(max.toString().substring(0, 18), "ffffffff-ffff-1fff")
+      assertEquals(max.getDatePrecision().date.toISOString(), "5236-03-31T21:21:00.684Z")
+    })
+  })
+
+  describe("#getUnixTimestampNanos()", () => {
+    it("should return the nanoseconds since the unix epoch", () => {
+      assertEquals(new TimeUuid(new Date(0), 0).getUnixTimestampNanos(), 0n)
+      assertEquals(new TimeUuid(new Date(1740132000123), 4567).getUnixTimestampNanos(), 1740132000123456700n)
+      assertEquals(new TimeUuid(new Date(-12219292800000), 0).getUnixTimestampNanos(), -12219292800000000000n)
+    })
+  })
+
+  describe("fromTimestamp()", () => {
+    it("should round trip the timestamp", () => {
+      for (const timestamp of [0n, 1n, 9999n, 10000n, 122192928000000042n, 0x1e498863d555680n, (1n << 60n) - 1n]) {
+        const val = TimeUuid.fromTimestamp(timestamp, "host01", "AA")
+        assertEquals(val.getTimestamp(), timestamp)
+        assertEquals(val.getNodeIdString(), "host01")
+        assertEquals(TimeUuid.fromString(val.toString()).getTimestamp(), timestamp)
+      }
+      assertEquals(
+        TimeUuid.fromTimestamp(0x1e498863d555680n, Buffer.from("010101010101", "hex"), "AA").getDate(),
+        TimeUuid.fromString("3d555680-9886-11e4-8101-010101010101").getDate(),
+      )
+    })
+    it("should throw when the timestamp doesn't fit in 60 bits", () => {
+      assertThrows(() => TimeUuid.fromTimestamp(-1n), RangeError)
+      assertThrows(() => TimeUuid.fromTimestamp(1n << 60n), RangeError)
+    })
+    it("should keep the uuids of one timestamp unique without updating the clock state", () => {
+      const previous = TimeUuidGenerator.getDefault()
+      const stateStore = new MemoryClockStateStore()
+      let loads = 0
+      let saves = 0
+      stateStore.load = () => {
+        loads++
+        return undefined
+      }
+      stateStore.save = () => {
+        saves++
+      }
+      try {
+        const generator = new TimeUuidGenerator({ nodeId: "host03", stateStore })
+        TimeUuidGenerator.setDefault(generator)
+        assertEquals(TimeUuid.fromTimestamp(0n, "host01", "AA").getNodeIdString(), "host01")
+        assertEquals(loads, 0)
+        const values = new Set<string>()
+        const length = 5000
+        for (let i = 0; i < length; i++) {
+          values.add(TimeUuid.fromTimestamp(0x1e498863d555680n).toString())
+          values.add(TimeUuid.fromISOString("2025-02-21T10:00:00Z").toString())
+          values.add(TimeUuid.fromEpochNanoseconds(1740132000000000000n).toString())
+        }
+        assertEquals(values.size, 3 * length)
+        assertEquals(TimeUuid.fromTimestamp(0x1e498863d555680n).getNodeIdString(), "host03")
+        // Only restoring the clock state once saves it
+        assertEquals(loads, 1)
+        assertEquals(saves, 1)
+        const clockId = generator.now().getClockId().toString("hex")
+        assertEquals(TimeUuid.fromTimestamp(0x1e498863d555680n).getClockId().toString("hex") === clockId, false)
+      } finally {
+        TimeUuidGenerator.setDefault(previous)
+      }
+    })
+  })
+
+  describe("fromEpochNanoseconds()", () => {
+    it("should fill in the ticks and round below 100 nanoseconds", () => {
+      const nanoseconds = 1740132000123456789n
+      const val = TimeUuid.fromEpochNanoseconds(nanoseconds, { nodeId: "host01", clockId: "AA" })
+      assertEquals(val.getDatePrecision(), { date: new Date(1740132000123), ticks: 4567 })
+      assertEquals(val.getNodeIdString(), "host01")
+      assertEquals(val.getEpochNanoseconds(), 1740132000123456700n)
+      assertEquals(TimeUuid.fromEpochNanoseconds(nanoseconds, { rounding: "ceil" }).getDatePrecision().ticks, 4568)
+      assertEquals(
+        TimeUuid.fromEpochNanoseconds(nanoseconds, { rounding: "halfExpand" }).getDatePrecision().ticks,
+        4568,
+      )
+      assertEquals(
+        TimeUuid.fromEpochNanoseconds(1740132000123456749n, { rounding: "halfExpand" }).getDatePrecision().ticks,
+        4567,
+      )
+    })
+    it("should round dates before 1970 towards the past, the future or away from the epoch", () => {
+      assertEquals(TimeUuid.fromEpochNanoseconds(-150n).getEpochNanoseconds(), -200n)
+      assertEquals(TimeUuid.fromEpochNanoseconds(-150n, { rounding: "ceil" }).getEpochNanoseconds(), -100n)
+      assertEquals(TimeUuid.fromEpochNanoseconds(-150n, { rounding: "halfExpand" }).getEpochNanoseconds(), -200n)
+      assertEquals(TimeUuid.fromEpochNanoseconds(-149n, { rounding: "halfExpand" }).getEpochNanoseconds(), -100n)
+      assertEquals(TimeUuid.fromEpochNanoseconds(-100n, { rounding: "ceil" }).getEpochNanoseconds(), -100n)
+    })
+    it("should throw when the timestamp doesn't fit in 60 bits", () => {
+      assertThrows(() => TimeUuid.fromEpochNanoseconds(-12219292800000000001n), RangeError)
+      assertEquals(
+        TimeUuid.fromEpochNanoseconds(-12219292800000000001n, { rounding: "ceil" }).getTimestamp(),
+        0n,
+      )
+    })
+  })
+
+  describe("fromInstant() and #toInstant()", () => {
+    it("should convert from and to a Temporal.Instant", () => {
+      const instant = Temporal.Instant.from("2025-02-21T10:00:00.123456789Z")
+      const val = TimeUuid.fromInstant(instant)
+      assertEquals(val.getDatePrecision(), { date: new Date("2025-02-21T10:00:00.123Z"), ticks: 4567 })
+      const converted = val.toInstant()
+      assertEquals(converted instanceof Temporal.Instant, true)
+      assertEquals(converted.toString(), "2025-02-21T10:00:00.1234567Z")
+    })
+    it("should accept any value with the epoch nanoseconds", () => {
+      const val = TimeUuid.fromInstant({ epochNanoseconds: 150n }, { rounding: "halfExpand" })
+      assertEquals(val.getEpochNanoseconds(), 200n)
+    })
+  })
+
   describe("#getNodeId()", () => {
     it("should get the node id of the Uuid representation", () => {
       let val = new TimeUuid(new Date(), 0, Buffer.from([1, 2, 3, 4, 5, 6]))
@@ -98,6 +256,68 @@ describe("TimeUuid", () => {
     })
   })
 
+  describe("#getAfter()", () => {
+    it("should increment the timestamp by 1 tick, carrying into the next millisecond", () => {
+      const date = new Date("2025-02-21T13:00:00.000Z")
+      const val = new TimeUuid(date, 9999, "host01", "AA")
+      const after = val.getAfter()
+      assertEquals(after.getDatePrecision(), { date: new Date(date.getTime() + 1), ticks: 0 })
+      assertEquals(after.getNodeIdString(), "host01")
+      assertEquals(after.getClockId().toString("hex"), val.getClockId().toString("hex"))
+      assertEquals(after.getBefore().equals(val), true)
+    })
+  })
+
+  describe("#plus() and #minus()", () => {
+    it("should add milliseconds or ticks keeping the node id and clock id", () => {
+      const date = new Date("2025-02-21T13:00:00.000Z")
+      const val = new TimeUuid(date, 5000, "host01", "AA")
+      assertEquals(val.plus(1500).getDatePrecision(), { date: new Date(date.getTime() + 1500), ticks: 5000 })
+      assertEquals(val.minus(1500).getDatePrecision(), { date: new Date(date.getTime() - 1500), ticks: 5000 })
+      assertEquals(val.plus(7500n).getDatePrecision(), { date: new Date(date.getTime() + 1), ticks: 2500 })
+      assertEquals(val.minus(7500n).getDatePrecision(), { date: new Date(date.getTime() - 1), ticks: 7500 })
+      assertEquals(val.plus(-1500).equals(val.minus(1500)), true)
+      assertEquals(val.plus(0).equals(val), true)
+      assertEquals(val.plus(1500).getNodeIdString(), "host01")
+      assertEquals(val.minus(1500).getClockId().toString("hex"), val.getClockId().toString("hex"))
+    })
+    it("should throw when the result is out of the 60-bit range or the duration is not an integer", () => {
+      const val = TimeUuid.fromTimestamp(0n, "host01", "AA")
+      assertThrows(() => val.minus(1n), RangeError)
+      assertThrows(() => TimeUuid.fromTimestamp((1n << 60n) - 1n).plus(1n), RangeError)
+      assertThrows(() => val.plus(0.5), RangeError)
+    })
+    it("should keep the other bytes and not use the default generator", () => {
+      const previous = TimeUuidGenerator.getDefault()
+      const stateStore = new MemoryClockStateStore()
+      let loads = 0
+      stateStore.load = () => {
+        loads++
+        return undefined
+      }
+      try {
+        TimeUuidGenerator.setDefault(new TimeUuidGenerator({ stateStore }))
+        const val = TimeUuid.fromString("3d555680-9886-11e4-8101-010101010101")
+        assertEquals(val.plus(1n).toString(), "3d555681-9886-11e4-8101-010101010101")
+        assertEquals(val.minus(0x100000000n).toString(), "3d555680-9885-11e4-8101-010101010101")
+        assertEquals(loads, 0)
+      } finally {
+        TimeUuidGenerator.setDefault(previous)
+      }
+    })
+  })
+
+  describe("diff()", () => {
+    it("should return the gap in 100-nanosecond ticks", () => {
+      const a = new TimeUuid(new Date("2025-02-21T13:00:00.001Z"), 5, "host01", "AA")
+      const b = new TimeUuid(new Date("2025-02-21T13:00:00.000Z"), 9999, "host02", "BB")
+      assertEquals(TimeUuid.diff(a, b), 6n)
+      assertEquals(TimeUuid.diff(b, a), -6n)
+      assertEquals(TimeUuid.diff(a, a), 0n)
+      assertEquals(TimeUuid.diff(a.plus(60000), a), 600000000n)
+    })
+  })
+
   describe("#isBefore()", () => {
     it("should return true if the first uuid is before the second", () => {
       const val1 = new TimeUuid(new Date(2020, 0, 1, 0, 0, 0, 0))
@@ -126,6 +346,13 @@ describe("TimeUuid", () => {
       }
       assertEquals(Object.keys(values).length, length)
     })
+    it("should use a single random node id with the multicast bit set when none is provided", function () {
+      const first = TimeUuid.now().getNodeId()
+      const second = TimeUuid.now().getNodeId()
+      assertEquals(second, first)
+      assertEquals(first[0] & 0x01, 1)
+      assertEquals(new TimeUuidGenerator().now().getNodeId(), first)
+    })
     it("should collide exactly at 10001 if date but not the ticks are specified", function () {
       const values: Record<string, boolean> = {}
       const length = 10000
@@ -149,6 +376,60 @@ describe("TimeUuid", () => {
     })
   })
 
+  describe("fromString() strict", () => {
+    it("should reject uuids that are not version 1", () => {
+      const error = assertThrows(
+        () => TimeUuid.fromString("acb1ccdd-eeff-4011-a233-445566778813", { strict: true }),
+        InvalidUuidVersionError,
+      ) as InvalidUuidVersionError
+      assertEquals(error.expected, 1)
+      assertEquals(error.actual, 4)
+      assertEquals(TimeUuid.fromString("acb1ccdd-eeff-4011-a233-445566778813").getVersion(), 4)
+      assertEquals(TimeUuid.fromString("3d555680-9886-11e4-8101-010101010101", { strict: true }).getVersion(), 1)
+    })
+  })
+
+  describe("fromBuffer()", () => {
+    it("should reject uuids that are not version 1 in strict mode", () => {
+      const buffer = Buffer.from("acb1ccddeeff4011a233445566778813", "hex")
+      assertThrows(() => TimeUuid.fromBuffer(buffer, { strict: true }), InvalidUuidVersionError)
+      assertEquals(TimeUuid.fromBuffer(buffer).toString(), "acb1ccdd-eeff-4011-a233-445566778813")
+    })
+  })
+
+  describe("#getBytes()", () => {
+    it("should create instances from plain Uint8Array values", () => {
+      const date = new Date("2015-01-10 5:05:05 GMT+0000")
+      const bytes = new Uint8Array(TimeUuid.fromDate(date, 42, "host01", "AA").getBytes())
+      const val = new TimeUuid(bytes)
+      assertEquals(val.getDatePrecision(), { date, ticks: 42 })
+      assertEquals(val.getNodeIdString(), "host01")
+      assertEquals(val.getClockId().toString("hex"), "8141")
+      assertEquals(TimeUuid.fromDate(date, 42, new TextEncoder().encode("host01")).getNodeIdString(), "host01")
+    })
+  })
+
+  describe("range()", () => {
+    it("should return the inclusive bounds between two dates", () => {
+      const start = new Date("2025-02-21T13:00:00.000Z")
+      const end = new Date("2025-02-21T14:00:00.000Z")
+      const { min, max } = TimeUuid.range(start, end)
+      assertEquals(min.equals(TimeUuid.min(start, 0)), true)
+      assertEquals(max.equals(TimeUuid.max(end, 9999)), true)
+      assertEquals(TimeUuid.compare(min, TimeUuid.fromDate(start, 0, "host01", "AA")), -1)
+      assertEquals(TimeUuid.compare(max, TimeUuid.fromDate(end, 9999, "host01", "AA")), 1)
+    })
+    it("should exclude the start and end milliseconds when not inclusive", () => {
+      const start = new Date("2025-02-21T13:00:00.000Z")
+      const end = new Date("2025-02-21T14:00:00.000Z")
+      const { min, max } = TimeUuid.range(start, end, { inclusive: false })
+      assertEquals(min.getDatePrecision(), { date: new Date("2025-02-21T13:00:00.001Z"), ticks: 0 })
+      assertEquals(max.getDatePrecision(), { date: new Date("2025-02-21T13:59:59.999Z"), ticks: 9999 })
+      assertThrows(() => TimeUuid.range(end, start), RangeError)
+      assertThrows(() => TimeUuid.range(start, start, { inclusive: false }), RangeError)
+    })
+  })
+
   describe("now()", () => {
     it("should pass the nodeId when provided", function () {
       const val = TimeUuid.now("h12345")
@@ -176,6 +457,19 @@ describe("TimeUuid", () => {
       const val = TimeUuid.min(new Date())
       assertEquals(val.getNodeId().toString("hex"), "808080808080")
     })
+    it("should use the exact ticks of an ISO 8601 date", function () {
+      const val = TimeUuid.min("2025-02-21T10:00:00.1234567Z")
+      assertEquals(val.toISOString(), "2025-02-21T10:00:00.1234567Z")
+      assertEquals(val.getNodeId().toString("hex"), "808080808080")
+      assertEquals(TimeUuid.min("2025-02-21T10:00:00.123Z").getDatePrecision().ticks, 0)
+      assertThrows(() => TimeUuid.min("2025-02-21"), RangeError)
+    })
+    it("should throw when ticks are given with an ISO 8601 date", function () {
+      // @ts-expect-error: the ticks of an ISO 8601 date are part of the string
+      assertThrows(() => TimeUuid.min("2025-02-21T10:00:00.123Z", 5), RangeError)
+      // @ts-expect-error: the ticks of an ISO 8601 date are part of the string
+      assertThrows(() => TimeUuid.max("2025-02-21T10:00:00.123Z", 0), RangeError)
+    })
   })
 
   describe("max()", () => {
@@ -183,6 +477,164 @@ describe("TimeUuid", () => {
       const val = TimeUuid.max(new Date())
       assertEquals(val.getNodeId().toString("hex"), "7f7f7f7f7f7f")
     })
+    it("should use the exact ticks of an ISO 8601 date", function () {
+      const val = TimeUuid.max("2025-02-21T11:00:00.1234567+01:00")
+      assertEquals(val.toISOString(), "2025-02-21T10:00:00.1234567Z")
+      assertEquals(val.getNodeId().toString("hex"), "7f7f7f7f7f7f")
+      const inside = TimeUuid.fromISOString("2025-02-21T10:00:00.1234567Z", { nodeId: "host01" })
+      assertEquals(TimeUuid.compare(TimeUuid.min(inside.toISOString()), inside), -1)
+      assertEquals(TimeUuid.compare(TimeUuid.max(inside.toISOString()), inside), 1)
+      assertEquals(TimeUuid.compare(TimeUuid.max("2025-02-21T10:00:00.1234566Z"), inside), -1)
+    })
+  })
+
+  describe("#toISOString() and fromISOString()", () => {
+    it("should keep the 100-nanosecond precision", () => {
+      const val = TimeUuid.fromISOString("2025-02-21T10:00:00.1234567Z", { nodeId: "host01", clockId: "AA" })
+      assertEquals(val.getDatePrecision(), { date: new Date("2025-02-21T10:00:00.123Z"), ticks: 4567 })
+      assertEquals(val.getNodeIdString(), "host01")
+      assertEquals(val.toISOString(), "2025-02-21T10:00:00.1234567Z")
+      assertEquals(TimeUuid.fromDate(new Date("2025-02-21T10:00:00Z"), 0).toISOString(), "2025-02-21T10:00:00.0000000Z")
+    })
+    it("should accept any fractional precision and offset", () => {
+      const read = (value: string) => TimeUuid.fromISOString(value).toISOString()
+      assertEquals(read("2025-02-21T10:00Z"), "2025-02-21T10:00:00.0000000Z")
+      assertEquals(read("2025-02-21T10:00:00.1Z"), "2025-02-21T10:00:00.1000000Z")
+      assertEquals(read("2025-02-21t10:00:00,12z"), "2025-02-21T10:00:00.1200000Z")
+      assertEquals(read("2025-02-21T11:30:00.123456789+01:30"), "2025-02-21T10:00:00.1234567Z")
+      assertEquals(read("2025-02-21T05:00:00.5-0500"), "2025-02-21T10:00:00.5000000Z")
+      assertEquals(read("2025-02-21T12:00:00+02"), "2025-02-21T10:00:00.0000000Z")
+      assertEquals(read("1969-12-31T23:59:59.99999999Z"), "1969-12-31T23:59:59.9999999Z")
+    })
+    it("should round the digits below 100 nanoseconds", () => {
+      const read = (value: string, rounding: TimeUuidRounding) =>
+        TimeUuid.fromISOString(value, { rounding }).toISOString()
+      assertEquals(read("2025-02-21T10:00:00.12345675Z", "floor"), "2025-02-21T10:00:00.1234567Z")
+      assertEquals(read("2025-02-21T10:00:00.12345675Z", "ceil"), "2025-02-21T10:00:00.1234568Z")
+      assertEquals(read("2025-02-21T10:00:00.12345675Z", "halfExpand"), "2025-02-21T10:00:00.1234568Z")
+      assertEquals(read("2025-02-21T10:00:00.123456749999Z", "halfExpand"), "2025-02-21T10:00:00.1234567Z")
+      assertEquals(read("1969-12-31T23:59:59.99999999Z", "ceil"), "1970-01-01T00:00:00.0000000Z")
+    })
+    it("should throw a RangeError for invalid dates", () => {
+      for (
+        const value of [
+          "2025-02-21T10:00:00",
+          "2025-02-30T10:00:00Z",
+          "2025-02-21T24:00:00Z",
+          "2025-02-21T10:00:60Z",
+          "2025-02-21T10:00:00+24:00",
+          "2025-02-21T10:00:00.Z",
+          "1500-01-01T00:00:00Z",
+        ]
+      ) {
+        assertThrows(() => TimeUuid.fromISOString(value), RangeError)
+      }
+    })
+  })
+
+  describe("compare()", () => {
+    it("should order by timestamp and then by clock id and node id as signed bytes", () => {
+      const date = new Date("2015-01-10 5:05:05 GMT+0000")
+      const values = [
+        "3d555680-9886-11e4-7f7f-7f7f7f7f7f7f",
+        "3d555680-9886-11e4-8080-808080808080",
+        "3d555680-9886-11e4-0001-010101010101",
+        "3d555680-9886-11e4-ff00-010101010101",
+        "3d555681-9886-11e4-8080-808080808080",
+        "3d55567f-9886-11e4-7f7f-7f7f7f7f7f7f",
+      ].map((value) => TimeUuid.fromString(value))
+      assertEquals(
+        [...values].sort(TimeUuid.compare).map((value) => value.toString()),
+        [
+          "3d55567f-9886-11e4-7f7f-7f7f7f7f7f7f",
+          "3d555680-9886-11e4-8080-808080808080",
+          "3d555680-9886-11e4-ff00-010101010101",
+          "3d555680-9886-11e4-0001-010101010101",
+          "3d555680-9886-11e4-7f7f-7f7f7f7f7f7f",
+          "3d555681-9886-11e4-8080-808080808080",
+        ],
+      )
+      assertEquals(TimeUuid.compare(values[0], values[0]), 0)
+      assertEquals(TimeUuid.compare(values[1], values[0]), -1)
+      assertEquals(TimeUuid.compare(values[0], values[1]), 1)
+      assertEquals(TimeUuid.compare(TimeUuid.min(date, 0), TimeUuid.fromDate(date, 0, "host01", "AA")), -1)
+      assertEquals(TimeUuid.compare(TimeUuid.max(date, 0), TimeUuid.fromDate(date, 0, "host01", "AA")), 1)
+      assertEquals(TimeUuid.compare(TimeUuid.max(date, 0), TimeUuid.min(date, 1)), -1)
+    })
+    it("should compare the 60-bit timestamps as unsigned values", () => {
+      const first = TimeUuid.fromTimestamp(0x7ffffffffffffffn, "host01", "AA")
+      const last = TimeUuid.fromTimestamp(0xfffffffffffffffn, "host01", "AA")
+      assertEquals(TimeUuid.compare(first, last), -1)
+    })
+  })
+
+  describe("compareBytes() and compareStrings()", () => {
+    it("should give the order of compare() on raw bytes and strings", () => {
+      const date = new Date("2015-01-10 5:05:05 GMT+0000")
+      const random = new SeededRandom(7)
+      const values = [
+        TimeUuid.min(date, 0),
+        TimeUuid.max(date, 0),
+        TimeUuid.fromTimestamp(0n, "host01", "AA"),
+        TimeUuid.fromTimestamp((1n << 60n) - 1n, "host01", "AA"),
+        ...Array.from(
+          { length: 40 },
+          (_, i) =>
+            new TimeUuid(new Date(date.getTime() + (i % 4)), i % 3, random.getRandomBytes(6), random.getRandomBytes(2)),
+        ),
+      ]
+      for (const a of values) {
+        for (const b of values) {
+          const expected = TimeUuid.compare(a, b)
+          assertEquals(TimeUuid.compareBytes(a.getBytes(), b.getBytes()), expected)
+          assertEquals(TimeUuid.compareStrings(a.toString(), b.toString()), expected)
+          assertEquals(TimeUuid.compareStrings(a.toString().toUpperCase(), b.toString()), expected)
+        }
+      }
+    })
+    it("should throw for strings that are not canonical uuids", () => {
+      const value = "3d555680-9886-11e4-8101-010101010101"
+      assertThrows(() => TimeUuid.compareStrings(value, value.replace(/-/g, "")), InvalidUuidFormatError)
+      assertThrows(() => TimeUuid.compareStrings("3d555680-9886-11e4-8101-01010101010x", value), InvalidUuidFormatError)
+    })
+    it("should throw for invalid characters and misplaced hyphens in parts that are not compared", () => {
+      const value = "00000000-0000-1000-8000-000000000000"
+      assertThrows(() => TimeUuid.compareStrings("00000000-0000-1000-zzzz-zzzzzzzzzzzz", value), InvalidUuidFormatError)
+      assertThrows(() => TimeUuid.compareStrings(value, "00000000-0000-1000-8z00-000000000000"), InvalidUuidFormatError)
+      assertThrows(() => TimeUuid.compareStrings("000000000-000-1000-8000-000000000000", value), InvalidUuidFormatError)
+      assertThrows(() => TimeUuid.compareStrings("00000000-0000-1000-8000-00000000000-", value), InvalidUuidFormatError)
+      assertEquals(TimeUuid.compareStrings(value, value), 0)
+    })
+  })
+
+  describe("getTimeFromBytes() and getTimeFromString()", () => {
+    it("should return the milliseconds of getDate()", () => {
+      const dates = [new Date(-12219292800000), new Date(0), new Date("1900-01-01T00:00:00.123Z"), new Date()]
+      for (const date of dates) {
+        for (const ticks of [0, 9999]) {
+          const val = new TimeUuid(date, ticks, "host01", "AA")
+          assertEquals(TimeUuid.getTimeFromBytes(val.getBytes()), date.getTime())
+          assertEquals(TimeUuid.getTimeFromString(val.toString()), date.getTime())
+        }
+      }
+      const max = TimeUuid.fromTimestamp((1n << 60n) - 1n, "host01", "AA")
+      assertEquals(TimeUuid.getTimeFromBytes(max.getBytes()), max.getDate().getTime())
+      assertEquals(TimeUuid.getTimeFromString(max.toString().toUpperCase()), max.getDate().getTime())
+      assertThrows(() => TimeUuid.getTimeFromString("3d555680"), InvalidUuidFormatError)
+      assertThrows(() => TimeUuid.getTimeFromString("3d555680x9886x11e4x8101x010101010101"), InvalidUuidFormatError)
+      assertThrows(() => TimeUuid.getTimeFromString("3d555680-9886-11e4-81g1-010101010101"), InvalidUuidFormatError)
+      assertThrows(() => TimeUuid.getTimeFromString("3d555680-9886-11e48-101-010101010101"), InvalidUuidFormatError)
+    })
+  })
+
+  describe("#compareTo()", () => {
+    it("should use the timeuuid order with other TimeUuid instances", () => {
+      const a = TimeUuid.fromString("3d555680-9886-11e4-8080-808080808080")
+      const b = TimeUuid.fromString("3d555680-9886-11e4-7f7f-7f7f7f7f7f7f")
+      assertEquals(a.compareTo(b), -1)
+      assertEquals(b.compareTo(a), 1)
+      assertEquals(a.compareTo(Uuid.fromString(b.toString())), 1)
+    })
   })
 
   describe("sortAscending()", () => {
@@ -213,4 +665,319 @@ describe("TimeUuid", () => {
       assertEquals(sorted[3].expectedOrder, 0)
     })
   })
+
+  describe("#toSortableKey() and fromSortableKey()", () => {
+    it("should put the timestamp first and decode the same uuid", () => {
+      const val = TimeUuid.fromString("3d555680-9886-11e4-8101-010101010101")
+      assertEquals(val.toSortableKey(), "0HWJC8CFANAT0030C1G60R30C1")
+      assertEquals(TimeUuid.fromSortableKey("0HWJC8CFANAT0030C1G60R30C1").toString(), val.toString())
+      assertEquals(TimeUuid.fromSortableKey("0hwjc8cfanat0030c1g60r30c1").toString(), val.toString())
+      assertThrows(() => TimeUuid.fromSortableKey("0HWJC8CFANAT0030C1G60R30C"), InvalidUuidFormatError)
+    })
+    it("should sort as strings in the order of sortAscending()", () => {
+      const random = new SeededRandom(3)
+      const date = new Date("2025-02-21T10:00:00Z")
+      const values = [
+        ...Array.from(
+          { length: 200 },
+          (_, i) =>
+            TimeUuid.fromDate(
+              new Date(date.getTime() + (i % 7) * 1000),
+              i % 3,
+              random.getRandomBytes(6),
+              random.getRandomBytes(2),
+            ),
+        ),
+        TimeUuid.fromDate(date, 0, "node01", new Uint8Array([0x7f, 0xff])),
+        TimeUuid.fromDate(date, 0, "node01", new Uint8Array([0x80, 0x00])),
+        TimeUuid.min(date, 0),
+        TimeUuid.max(date, 9999),
+      ]
+      const keys = values.map((value) => value.toSortableKey()).sort()
+      assertEquals(keys.map((key) => TimeUuid.fromSortableKey(key)), [...values].sort(TimeUuid.sortAscending))
+    })
+  })
+
+  describe("#toV6()", () => {
+    it("should reorder the timestamp as described in RFC 9562", () => {
+      const val = TimeUuid.fromString("c232ab00-9414-11ec-b3c8-9e6bdeced846")
+      const v6 = val.toV6()
+      assertEquals(v6 instanceof TimeUuidV6, true)
+      assertEquals(v6.toString(), "1ec9414c-232a-6b00-b3c8-9e6bdeced846")
+      assertEquals(v6.getDatePrecision(), val.getDatePrecision())
+    })
+    it("should round trip the timestamp, ticks, clock id and node id", () => {
+      const dates = [new Date(-12219292800000), new Date(0), new Date("2015-01-10 5:05:05 GMT+0000"), new Date()]
+      for (const date of dates) {
+        for (const ticks of [0, 1, 4096, 9999]) {
+          const val = new TimeUuid(date, ticks, "host01", "AA")
+          const v6 = val.toV6()
+          assertEquals(v6.getDatePrecision().date.getTime(), date.getTime())
+          assertEquals(v6.getDatePrecision().ticks, ticks)
+          assertEquals(v6.getNodeId().toString("hex"), val.getNodeId().toString("hex"))
+          assertEquals(v6.getClockId().toString("hex"), val.getClockId().toString("hex"))
+          assertEquals(TimeUuid.fromV6(v6).equals(val), true)
+          assertEquals(v6.toV1().equals(val), true)
+        }
+      }
+    })
+  })
+})
+
+describe("TimeUuidV6", () => {
+  describe("constructor()", () => {
+    it("should generate based on the parameters", () => {
+      const val = new TimeUuidV6(
+        new Date(0),
+        0,
+        Buffer.from([1, 1, 1, 1, 1, 1]),
+        Buffer.from([1, 1]),
+      )
+      assertEquals(val.toString(), "1b21dd21-3814-6000-8101-010101010101")
+      assertEquals(val.getDate().getTime(), 0)
+    })
+  })
+
+  describe("fromString()", () => {
+    it("should parse the string representation", () => {
+      const val = TimeUuidV6.fromString("1ec9414c-232a-6b00-b3c8-9e6bdeced846")
+      assertEquals(val instanceof TimeUuidV6, true)
+      assertEquals(val.toV1().toString(), "c232ab00-9414-11ec-b3c8-9e6bdeced846")
+    })
+  })
+
+  describe("min() and max()", () => {
+    it("should generate the byte order bounds for the date", () => {
+      const date = new Date()
+      const min = TimeUuidV6.min(date, 0)
+      const max = TimeUuidV6.max(date, 0)
+      assertEquals(min.getBuffer().subarray(8).toString("hex"), "8000000000000000")
+      assertEquals(max.getBuffer().subarray(8).toString("hex"), "bfffffffffffffff")
+      const val = TimeUuidV6.fromDate(date, 0)
+      assertEquals(TimeUuidV6.sortAscending(min, val) < 0, true)
+      assertEquals(TimeUuidV6.sortAscending(val, max) < 0, true)
+    })
+  })
+
+  describe("sortAscending()", () => {
+    it("should sort in time order using the byte order", () => {
+      const values = [
+        TimeUuidV6.fromDate(new Date(2020, 0, 2, 0, 0, 0, 0), 2),
+        TimeUuidV6.fromDate(new Date(2020, 0, 2, 0, 0, 0, 0), 1),
+        TimeUuidV6.fromDate(new Date(2020, 0, 1, 0, 0, 0, 0), 0),
+        TimeUuidV6.fromDate(new Date(2020, 0, 3, 0, 0, 0, 0), 0),
+      ]
+      const sorted = [...values].sort(TimeUuidV6.sortAscending)
+      assertEquals(sorted, [values[2], values[1], values[0], values[3]])
+      assertEquals([...values].sort(TimeUuidV6.sortDescending), [values[3], values[0], values[1], values[2]])
+      assertEquals(
+        sorted.map((value) => value.toString()),
+        values.map((value) => value.toString()).sort(),
+      )
+      assertEquals(values[1].isBefore(values[0]), true)
+      assertEquals(values[0].isAfter(values[1]), true)
+    })
+  })
+})
+
+describe("TimeUuidGenerator", () => {
+  describe("constructor()", () => {
+    it("should use the default node and clock identifiers", () => {
+      const generator = new TimeUuidGenerator({ nodeId: "host01", clockId: "AA" })
+      const val = generator.now()
+      assertEquals(val instanceof TimeUuid, true)
+      assertEquals(val.getNodeIdString(), "host01")
+      assertEquals(val.getClockId().toString("hex"), "8141")
+      assertEquals(generator.now("host02").getNodeIdString(), "host02")
+    })
+    it("should validate the default identifiers", () => {
+      assertThrows(() => new TimeUuidGenerator({ nodeId: "host" }))
+      assertThrows(() => new TimeUuidGenerator({ clockId: Buffer.from([1, 2, 3]) }))
+    })
+  })
+
+  describe("#fromDate()", () => {
+    it("should keep the tick counters per instance", () => {
+      const date = new Date()
+      const first = new TimeUuidGenerator({ nodeId: "host01", clockId: "AA" })
+      const second = new TimeUuidGenerator({ nodeId: "host01", clockId: "AA" })
+      for (let i = 0; i < 10; i++) {
+        assertEquals(first.fromDate(date).equals(second.fromDate(date)), true)
+      }
+      TimeUuid.fromDate(date, undefined, "host01", "AA")
+      assertEquals(first.fromDate(date).equals(second.fromDate(date)), true)
+    })
+  })
+
+  describe("#now()", () => {
+    it("should generate the same sequence with the same clock and random sources", () => {
+      const create = () =>
+        new TimeUuidGenerator({ clock: new FakeClock(new Date("2025-02-21T10:00:00Z")), random: new SeededRandom(7) })
+      const first = create()
+      const second = create()
+      for (let i = 0; i < 5; i++) {
+        assertEquals(first.now().toString(), second.now().toString())
+      }
+    })
+    it("should use the time of the clock", () => {
+      const clock = new FakeClock(new Date("2025-02-21T10:00:00Z"), 1)
+      const generator = new TimeUuidGenerator({ clock })
+      assertEquals(generator.now().getDate().toISOString(), "2025-02-21T10:00:00.000Z")
+      assertEquals(generator.now().getDate().toISOString(), "2025-02-21T10:00:00.001Z")
+    })
+    it("should use the ticks of a clock with 100-nanosecond precision", () => {
+      const generator = new TimeUuidGenerator({ clock: { now: () => 17401320000001234n } })
+      const val = generator.now()
+      assertEquals(val.getDate().toISOString(), "2025-02-21T10:00:00.000Z")
+      assertEquals(val.getDatePrecision().ticks, 1234)
+    })
+  })
+
+  describe("#now() monotonicity", () => {
+    it("should borrow the next millisecond when the ticks overflow", () => {
+      const overflows: Date[] = []
+      const generator = new TimeUuidGenerator({
+        clock: new FakeClock(new Date("2025-02-21T10:00:00Z")),
+        onTickOverflow: (date) => overflows.push(date),
+      })
+      let previous = generator.now()
+      for (let i = 1; i <= 10000; i++) {
+        const val = generator.now()
+        assertEquals(val.isAfter(previous), true)
+        previous = val
+      }
+      assertEquals(previous.getDate().toISOString(), "2025-02-21T10:00:00.001Z")
+      assertEquals(previous.getDatePrecision().ticks, 0)
+      assertEquals(overflows.map((date) => date.toISOString()), ["2025-02-21T10:00:00.001Z"])
+      assertEquals(generator.getStats(), { tickOverflows: 1, clockRegressions: 0 })
+    })
+    it("should keep increasing and advance the clock sequence when the clock goes backward", () => {
+      const regressions: [Date, Date][] = []
+      const clock = new FakeClock(new Date("2025-02-21T10:00:00Z"))
+      const generator = new TimeUuidGenerator({
+        clock,
+        clockId: Buffer.from([0x80, 0xff]),
+        onClockRegression: (previous, current) => regressions.push([previous, current]),
+      })
+      const first = generator.now()
+      clock.advance(-1000)
+      const second = generator.now()
+      assertEquals(second.isAfter(first), true)
+      assertEquals(first.getClockId().toString("hex"), "80ff")
+      assertEquals(second.getClockId().toString("hex"), "8100")
+      assertEquals(regressions.length, 1)
+      assertEquals(regressions[0][0].toISOString(), "2025-02-21T10:00:00.000Z")
+      assertEquals(regressions[0][1].toISOString(), "2025-02-21T09:59:59.000Z")
+      assertEquals(generator.getStats(), { tickOverflows: 0, clockRegressions: 1 })
+
+      clock.advance(2000)
+      const third = generator.now()
+      assertEquals(third.getDate().toISOString(), "2025-02-21T10:00:01.000Z")
+      assertEquals(third.getDatePrecision().ticks, 0)
+    })
+  })
+
+  describe("#generateBatch()", () => {
+    it("should generate strictly increasing uuids for a single node", () => {
+      const generator = new TimeUuidGenerator({ clock: new FakeClock(1740132000000), random: new SeededRandom(3) })
+      const batch = generator.generateBatch(20005)
+      assertEquals(batch.length, 20005)
+      for (let i = 1; i < batch.length; i++) {
+        assertEquals(TimeUuid.compare(batch[i - 1], batch[i]), -1)
+        assertEquals(batch[i].getNodeId().toString("hex"), batch[0].getNodeId().toString("hex"))
+        assertEquals(batch[i].getVersion(), 1)
+      }
+      assertEquals(generator.getStats().tickOverflows, 2)
+      assertEquals(TimeUuid.compare(batch[batch.length - 1], generator.now(batch[0].getNodeId())), -1)
+    })
+    it("should give the same values as repeated calls to now()", () => {
+      const options = { clock: new FakeClock(1740132000000, 1), nodeId: "host01", clockId: "AA" }
+      const batch = new TimeUuidGenerator(options).generateBatch(5)
+      const generator = new TimeUuidGenerator({ ...options, clock: new FakeClock(1740132000000, 1) })
+      assertEquals(
+        batch.map((value) => value.toString()),
+        Array.from({ length: 5 }, () => generator.now().toString()),
+      )
+    })
+    it("should use the node and clock identifiers of the options", () => {
+      const batch = TimeUuid.generateBatch(3, { nodeId: "host02", clockId: "BB" })
+      assertEquals(batch.map((value) => value.getNodeIdString()), ["host02", "host02", "host02"])
+      assertEquals(batch[2].getClockId().toString("hex"), "8242")
+    })
+    it("should spread the batch between two dates", () => {
+      const start = new Date("2025-02-21T13:00:00.000Z")
+      const end = new Date("2025-02-21T14:00:00.000Z")
+      const batch = new TimeUuidGenerator({ nodeId: "host01" }).generateBatch(4, { start, end })
+      assertEquals(batch.map((value) => value.getDate().toISOString()), [
+        "2025-02-21T13:00:00.000Z",
+        "2025-02-21T13:15:00.000Z",
+        "2025-02-21T13:30:00.000Z",
+        "2025-02-21T13:45:00.000Z",
+      ])
+      const dense = new TimeUuidGenerator().generateBatch(3, { start, end: new Date(start.getTime() + 1) })
+      assertEquals(dense.map((value) => value.getDatePrecision().ticks), [0, 3333, 6666])
+      assertThrows(() => TimeUuid.generateBatch(10001, { start, end: new Date(start.getTime() + 1) }), RangeError)
+      assertThrows(() => TimeUuid.generateBatch(3, { start }), RangeError)
+      assertThrows(() => TimeUuid.generateBatch(-1), RangeError)
+      assertThrows(() => TimeUuid.generateBatch(1.5), RangeError, "non-negative integer")
+      assertEquals(TimeUuid.generateBatch(0), [])
+    })
+  })
+
+  describe("state store", () => {
+    it("should keep a stable clock id and save it", () => {
+      const stateStore = new MemoryClockStateStore()
+      const clock = new FakeClock(new Date("2025-02-21T10:00:00Z"))
+      const generator = new TimeUuidGenerator({ clock, stateStore, nodeId: "host01" })
+      const first = generator.now()
+      clock.advance(1)
+      assertEquals(generator.now().getClockId().toString("hex"), first.getClockId().toString("hex"))
+      assertEquals(generator.fromDate(new Date(0)).getClockId().toString("hex"), first.getClockId().toString("hex"))
+      assertEquals(stateStore.load(), {
+        clockSequence: first.getClockId().readUInt16BE(0) & 0x3fff,
+        timestamp: Date.UTC(2025, 1, 21, 10) + 1000,
+        nodeId: Buffer.from("host01").toString("hex"),
+      })
+    })
+    it("should restore the clock sequence and advance it when the clock is within the saved state", () => {
+      const clock = new FakeClock(new Date("2025-02-21T10:00:00Z"))
+      const stateStore = new MemoryClockStateStore({ clockSequence: 0x0123, timestamp: Date.UTC(2025, 1, 21, 10) })
+      let generator = new TimeUuidGenerator({ clock, stateStore })
+      assertEquals(generator.now().getClockId().toString("hex"), "8124")
+
+      clock.advance(5000)
+      generator = new TimeUuidGenerator({ clock, stateStore })
+      assertEquals(generator.now().getClockId().toString("hex"), "8124")
+    })
+    it("should advance the saved clock sequence when the clock goes backward", () => {
+      const clock = new FakeClock(new Date("2025-02-21T10:00:00Z"))
+      const stateStore = new MemoryClockStateStore({ clockSequence: 0x3fff, timestamp: 0 })
+      const generator = new TimeUuidGenerator({ clock, stateStore })
+      assertEquals(generator.now().getClockId().toString("hex"), "bfff")
+      clock.advance(-1)
+      assertEquals(generator.now().getClockId().toString("hex"), "8000")
+      assertEquals(stateStore.load()?.clockSequence, 0)
+    })
+    it("should pick a random clock sequence when the state belongs to another node", () => {
+      const stateStore = new MemoryClockStateStore({ clockSequence: 7, timestamp: 0, nodeId: "000000000000" })
+      const generator = new TimeUuidGenerator({ stateStore, nodeId: "host01", random: new SeededRandom(1) })
+      const expected = new SeededRandom(1).getRandomBytes(2)
+      const clockSequence = ((expected[0] << 8) | expected[1]) & 0x3fff
+      assertEquals(generator.now().getClockId().readUInt16BE(0) & 0x3fff, clockSequence)
+    })
+  })
+
+  describe("setDefault()", () => {
+    it("should replace the generator used by the static methods", () => {
+      const previous = TimeUuidGenerator.getDefault()
+      try {
+        TimeUuidGenerator.setDefault(new TimeUuidGenerator({ nodeId: "host03" }))
+        assertEquals(TimeUuid.now().getNodeIdString(), "host03")
+        assertEquals(TimeUuid.fromDate(new Date()).getNodeIdString(), "host03")
+      } finally {
+        TimeUuidGenerator.setDefault(previous)
+      }
+      assertEquals(TimeUuidGenerator.getDefault(), previous)
+    })
+  })
 })
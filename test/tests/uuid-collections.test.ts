@@ -0,0 +1,71 @@
+import { assertEquals } from "jsr:@std/assert"
+import { describe, it } from "jsr:@std/testing/bdd"
+import { TimeUuid, Uuid, UuidMap, UuidSet } from "../../src/mod.ts"
+
+describe("UuidMap", () => {
+  describe("#set() and #get()", () => {
+    it("should use equal uuids of any class as the same key", () => {
+      const time = TimeUuid.fromString("3d555680-9886-11e4-8101-010101010101")
+      const map = new UuidMap<number>()
+      map.set(time, 1)
+      map.set(Uuid.fromString(time.toString()), 2)
+      assertEquals(map.size, 1)
+      assertEquals(map.get(new TimeUuid(time.getBytes())), 2)
+      assertEquals([...map.keys()][0], time)
+      assertEquals(map.get(Uuid.NIL), undefined)
+      assertEquals(map.has(Uuid.NIL), false)
+    })
+    it("should keep the uuids with the same hash code apart", () => {
+      const a = Uuid.fromString("00000000-0000-0001-0000-000000000002")
+      const b = Uuid.fromString("00000000-0000-0002-0000-000000000001")
+      assertEquals(a.hashCode(), b.hashCode())
+      const map = new UuidMap([[a, "a"], [b, "b"]])
+      assertEquals(map.size, 2)
+      assertEquals(map.get(a), "a")
+      assertEquals(map.get(b), "b")
+      assertEquals(map.delete(a), true)
+      assertEquals(map.delete(a), false)
+      assertEquals(map.get(b), "b")
+      assertEquals(map.has(a), false)
+    })
+  })
+
+  describe("iteration", () => {
+    it("should follow the insertion order", () => {
+      const ids = TimeUuid.generateBatch(5)
+      const map = new UuidMap<number>()
+      ids.forEach((id, i) => map.set(id, i))
+      map.delete(ids[1])
+      map.set(ids[1], 10)
+      map.set(ids[0], 20)
+      assertEquals([...map.values()], [20, 2, 3, 4, 10])
+      assertEquals([...map].map(([key]) => key), [ids[0], ids[2], ids[3], ids[4], ids[1]])
+      const visited: number[] = []
+      map.forEach((value) => visited.push(value))
+      assertEquals(visited, [20, 2, 3, 4, 10])
+      map.clear()
+      assertEquals(map.size, 0)
+      assertEquals([...map.entries()], [])
+    })
+  })
+})
+
+describe("UuidSet", () => {
+  it("should deduplicate equal uuids, keeping the first one", () => {
+    const id = TimeUuid.now()
+    const copy = Uuid.fromString(id.toString())
+    const set = new UuidSet([id, copy, Uuid.NIL])
+    assertEquals(set.size, 2)
+    assertEquals([...set], [id, Uuid.NIL])
+    assertEquals(set.has(copy), true)
+    set.add(Uuid.MAX).add(Uuid.NIL)
+    assertEquals([...set.values()], [id, Uuid.NIL, Uuid.MAX])
+    assertEquals(set.delete(copy), true)
+    assertEquals(set.has(id), false)
+    const visited: Uuid[] = []
+    set.forEach((value) => visited.push(value))
+    assertEquals(visited, [Uuid.NIL, Uuid.MAX])
+    set.clear()
+    assertEquals(set.size, 0)
+  })
+})
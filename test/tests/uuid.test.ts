@@ -1,16 +1,37 @@
 import { assertEquals, assertInstanceOf, assertThrows } from "jsr:@std/assert"
 import { describe, it } from "jsr:@std/testing/bdd"
 import { Buffer } from "node:buffer"
-import { Uuid } from "../../src/mod.ts"
+import { inspect } from "node:util"
+import {
+  InvalidUuidFormatError,
+  SeededRandom,
+  TimeUuid,
+  TimeUuidV6,
+  TimeUuidV7,
+  Uuid,
+  UuidError,
+} from "../../src/mod.ts"
 
 describe("Uuid", () => {
   describe("constructor", function () {
     it("should validate the Buffer length", function () {
       assertThrows(function () {
         return new Uuid(Buffer.allocUnsafe(10))
-      })
+      }, InvalidUuidFormatError)
       assertInstanceOf(new Uuid(Buffer.allocUnsafe(16)), Uuid)
     })
+    it("should not change when the input or output bytes change", function () {
+      const buf = Buffer.from("aabbccddeeff00112233445566778899", "hex")
+      const val = new Uuid(buf)
+      buf.fill(0)
+      val.getBuffer().fill(0)
+      val.getBytes().fill(0)
+      assertEquals(val.toString(), "aabbccdd-eeff-0011-2233-445566778899")
+      const time = TimeUuid.fromString("3d555680-9886-11e4-8101-010101010101")
+      time.getNodeId().fill(0)
+      time.getClockId().fill(0)
+      assertEquals(time.toString(), "3d555680-9886-11e4-8101-010101010101")
+    })
   })
 
   describe("#toString()", function () {
@@ -49,6 +70,76 @@ describe("Uuid", () => {
     })
   })
 
+  describe("#getBytes()", function () {
+    it("should accept and return plain Uint8Array values", function () {
+      const bytes = new Uint8Array(Buffer.from("ffffccddeeff00222233445566778813", "hex"))
+      const val = new Uuid(bytes)
+      assertEquals(val.getBytes(), bytes)
+      assertEquals(val.toString(), "ffffccdd-eeff-0022-2233-445566778813")
+      assertEquals(val.getBuffer().toString("hex"), "ffffccddeeff00222233445566778813")
+      assertThrows(() => new Uuid(new Uint8Array(15)), InvalidUuidFormatError)
+    })
+  })
+
+  describe("#hashCode()", function () {
+    it("should combine the 32-bit words as Java's UUID.hashCode()", function () {
+      assertEquals(Uuid.fromString("00000000-0000-0001-0000-000000000002").hashCode(), 3)
+      assertEquals(Uuid.fromString("80000000-0000-0000-0000-000000000000").hashCode(), -2147483648)
+      assertEquals(Uuid.MAX.hashCode(), 0)
+      assertEquals(Uuid.NIL.hashCode(), 0)
+    })
+    it("should be the same for equal values of any class", function () {
+      const time = TimeUuid.now()
+      assertEquals(Uuid.fromString(time.toString()).hashCode(), time.hashCode())
+      assertEquals(new TimeUuid(time.getBytes()).hashCode(), time.hashCode())
+    })
+  })
+
+  describe("compare()", function () {
+    it("should order the values as their bytes and strings", function () {
+      const values = [
+        "ffffffff-0000-0000-0000-000000000000",
+        "00000000-0000-0000-0000-000000000001",
+        "7fffffff-ffff-ffff-ffff-ffffffffffff",
+        "80000000-0000-0000-0000-000000000000",
+      ].map((value) => Uuid.fromString(value))
+      assertEquals(
+        [...values].sort(Uuid.compare).map((value) => value.toString()),
+        [
+          "00000000-0000-0000-0000-000000000001",
+          "7fffffff-ffff-ffff-ffff-ffffffffffff",
+          "80000000-0000-0000-0000-000000000000",
+          "ffffffff-0000-0000-0000-000000000000",
+        ],
+      )
+      assertEquals(Uuid.compare(Uuid.NIL, Uuid.MAX), -1)
+      assertEquals(Uuid.compare(Uuid.MAX, Uuid.NIL), 1)
+      assertEquals(Uuid.compare(Uuid.MAX, Uuid.fromString("ffffffff-ffff-ffff-ffff-ffffffffffff")), 0)
+    })
+  })
+
+  describe("#compareTo()", function () {
+    it("should compare with the order of compare()", function () {
+      const a = Uuid.fromString("00000000-0000-0000-0000-000000000001")
+      assertEquals(a.compareTo(Uuid.NIL), 1)
+      assertEquals(a.compareTo(Uuid.MAX), -1)
+      assertEquals(a.compareTo(a), 0)
+    })
+  })
+
+  describe("custom inspection", function () {
+    it("should show the constructor name and string representation in Node.js and Deno", function () {
+      const val = Uuid.fromString("3d555680-9886-11e4-8101-010101010101")
+      assertEquals(val.inspect(), "Uuid: 3d555680-9886-11e4-8101-010101010101")
+      assertEquals(inspect(val), "Uuid: 3d555680-9886-11e4-8101-010101010101")
+      assertEquals(Deno.inspect(val), "Uuid: 3d555680-9886-11e4-8101-010101010101")
+      assertEquals(
+        inspect({ id: TimeUuid.fromString(val.toString()) }),
+        "{ id: TimeUuid: 3d555680-9886-11e4-8101-010101010101 }",
+      )
+    })
+  })
+
   describe("fromString()", function () {
     it("should validate that the string", function () {
       assertThrows(function () {
@@ -62,6 +153,37 @@ describe("Uuid", () => {
         "acb1ccdd-eeff-0011-2233-445566778813",
       )
     })
+    it("should accept hex without hyphens, braced, URN and uppercase forms", function () {
+      const expected = "acb1ccdd-eeff-0011-2233-445566778813"
+      for (
+        const value of [
+          "acb1ccddeeff00112233445566778813",
+          "{acb1ccdd-eeff-0011-2233-445566778813}",
+          "urn:uuid:acb1ccdd-eeff-0011-2233-445566778813",
+          "URN:UUID:ACB1CCDD-EEFF-0011-2233-445566778813",
+          "ACB1CCDD-EEFF-0011-2233-445566778813",
+        ]
+      ) {
+        assertEquals(Uuid.fromString(value).toString(), expected)
+      }
+    })
+    it("should throw typed errors for invalid values", function () {
+      for (
+        const value of [
+          "",
+          "zzb1ccdd-eeff-0011-2233-445566778800",
+          "acb1ccdd-eeff-0011-2233-4455667788",
+          "{acb1ccdd-eeff-0011-2233-445566778813",
+          "acb1ccdd-eeff0011-2233-445566778813",
+          "urn:uuid:acb1ccddeeff00112233445566778813",
+          undefined as unknown as string,
+        ]
+      ) {
+        const error = assertThrows(() => Uuid.fromString(value), InvalidUuidFormatError)
+        assertEquals(error instanceof UuidError, true)
+        assertEquals((error as InvalidUuidFormatError).value, value)
+      }
+    })
     it("should contain a valid internal representation", function () {
       let val = Uuid.fromString("acb1ccdd-eeff-0011-2233-445566778813")
       assertEquals(val.getBuffer().toString("hex"), "acb1ccddeeff00112233445566778813")
@@ -70,6 +192,176 @@ describe("Uuid", () => {
     })
   })
 
+  describe("#getVersion()", function () {
+    it("should return the version bits", function () {
+      assertEquals(Uuid.random().getVersion(), 4)
+      assertEquals(TimeUuid.now().getVersion(), 1)
+      assertEquals(Uuid.fromString("1ec9414c-232a-6b00-b3c8-9e6bdeced846").getVersion(), 6)
+      assertEquals(Uuid.NIL.getVersion(), 0)
+    })
+  })
+
+  describe("#getVariant()", function () {
+    it("should return the variant bits", function () {
+      assertEquals(Uuid.random().getVariant(), "rfc4122")
+      assertEquals(Uuid.fromString("00000000-0000-0000-7fff-000000000000").getVariant(), "ncs")
+      assertEquals(Uuid.fromString("00000000-0000-0000-c000-000000000000").getVariant(), "microsoft")
+      assertEquals(Uuid.fromString("00000000-0000-0000-e000-000000000000").getVariant(), "future")
+    })
+  })
+
+  describe("NIL and MAX", function () {
+    it("should have all bits set to zero or one", function () {
+      assertEquals(Uuid.NIL.toString(), "00000000-0000-0000-0000-000000000000")
+      assertEquals(Uuid.MAX.toString(), "ffffffff-ffff-ffff-ffff-ffffffffffff")
+    })
+  })
+
+  describe("parse()", function () {
+    it("should return the subclass for the version", function () {
+      const v1 = Uuid.parse("3d555680-9886-11e4-8101-010101010101")
+      assertInstanceOf(v1, TimeUuid)
+      assertEquals(v1.getDate().getTime(), new Date("2015-01-10 5:05:05 GMT+0000").getTime())
+      assertInstanceOf(Uuid.parse("1ec9414c-232a-6b00-b3c8-9e6bdeced846"), TimeUuidV6)
+      assertInstanceOf(Uuid.parse("017f22e2-79b0-7cc3-98c4-dc0c0c07398f"), TimeUuidV7)
+    })
+    it("should return a plain Uuid for other versions", function () {
+      const val = Uuid.parse("{acb1ccdd-eeff-4011-a233-445566778813}")
+      assertEquals(val.constructor, Uuid)
+      assertEquals(val.toString(), "acb1ccdd-eeff-4011-a233-445566778813")
+      assertThrows(() => Uuid.parse("22"), InvalidUuidFormatError)
+    })
+  })
+
+  describe("fromName()", function () {
+    it("should generate version 5 uuids by default", function () {
+      const val = Uuid.fromName("python.org", Uuid.NAMESPACE_DNS)
+      assertEquals(val.toString(), "886313e1-3b8a-5372-9b90-0c9aee199e5d")
+      assertEquals(val.getVersion(), 5)
+      assertEquals(val.getVariant(), "rfc4122")
+    })
+    it("should generate version 3 uuids", function () {
+      assertEquals(
+        Uuid.fromName("python.org", Uuid.NAMESPACE_DNS, { version: 3 }).toString(),
+        "6fa459ea-ee8a-3ca4-894e-db77e160355e",
+      )
+      assertEquals(
+        Uuid.fromName("1.3.6.1", Uuid.NAMESPACE_OID, { version: 3 }).toString(),
+        "dd1a1cef-13d5-368a-ad82-eca71acd4cd1",
+      )
+    })
+    it("should match other implementations for every standard namespace", function () {
+      assertEquals(
+        Uuid.fromName("https://flowcore.io/events/1", Uuid.NAMESPACE_URL).toString(),
+        "556c7ad1-4481-5cec-92e3-9ffc53472637",
+      )
+      assertEquals(
+        Uuid.fromName("cn=John Doe,o=Acme", Uuid.NAMESPACE_X500).toString(),
+        "56427d5b-cb4e-5e1f-a034-040025b6d964",
+      )
+      assertEquals(
+        Uuid.fromName("ünïcode.example", "6ba7b810-9dad-11d1-80b4-00c04fd430c8").toString(),
+        "3d837e74-1721-52e6-ad1a-012927263205",
+      )
+    })
+    it("should accept the name as bytes", function () {
+      const namespace = Uuid.fromString("acb1ccdd-eeff-4011-a233-445566778813")
+      assertEquals(
+        Uuid.fromName(new Uint8Array([0, 1, 2, 255]), namespace).toString(),
+        "37f02997-ecd9-5b28-82c2-2bfe5a55a5a2",
+      )
+    })
+  })
+
+  describe("#toBase64Url()", function () {
+    it("should encode and decode 22 base64url characters", function () {
+      const val = Uuid.fromString("3d555680-9886-11e4-8101-010101010101")
+      assertEquals(val.toBase64Url(), "PVVWgJiGEeSBAQEBAQEBAQ")
+      assertEquals(Uuid.fromBase64Url("PVVWgJiGEeSBAQEBAQEBAQ").equals(val), true)
+      assertEquals(Uuid.MAX.toBase64Url(), "_____________________w")
+      assertEquals(Uuid.fromBase64Url(Uuid.MAX.toBase64Url()).equals(Uuid.MAX), true)
+    })
+    it("should reject malformed values", function () {
+      assertThrows(() => Uuid.fromBase64Url("PVVWgJiGEeSBAQEBAQEBA"), InvalidUuidFormatError)
+      assertThrows(() => Uuid.fromBase64Url("PVVWgJiGEeSBAQEBAQEBAQ=="), InvalidUuidFormatError)
+      assertThrows(() => Uuid.fromBase64Url("PVVWgJiGEeSBAQEBAQEB+Q"), InvalidUuidFormatError)
+      assertThrows(() => Uuid.fromBase64Url("PVVWgJiGEeSBAQEBAQEBAR"), InvalidUuidFormatError)
+    })
+  })
+
+  describe("#toBase58()", function () {
+    it("should encode and decode 22 base58 characters", function () {
+      const val = Uuid.fromString("3d555680-9886-11e4-8101-010101010101")
+      assertEquals(val.toBase58(), "8aGwUQe6GFwMvCvR1mGmdJ")
+      assertEquals(Uuid.fromBase58("8aGwUQe6GFwMvCvR1mGmdJ").equals(val), true)
+      assertEquals(Uuid.NIL.toBase58(), "1111111111111111111111")
+      assertEquals(Uuid.fromBase58(Uuid.MAX.toBase58()).equals(Uuid.MAX), true)
+    })
+    it("should reject malformed values", function () {
+      assertThrows(() => Uuid.fromBase58("8aGwUQe6GFwMvCvR1mGmd"), InvalidUuidFormatError)
+      assertThrows(() => Uuid.fromBase58("8aGwUQe6GFwMvCvR1mGmd0"), InvalidUuidFormatError)
+      assertThrows(() => Uuid.fromBase58("zzzzzzzzzzzzzzzzzzzzzz"), InvalidUuidFormatError)
+    })
+  })
+
+  describe("#toBase32()", function () {
+    it("should encode and decode 26 Crockford base32 characters", function () {
+      const val = Uuid.fromString("3d555680-9886-11e4-8101-010101010101")
+      assertEquals(val.toBase32(), "1XANB8164627J82081040G2081")
+      assertEquals(Uuid.fromBase32("1XANB8164627J82081040G2081").equals(val), true)
+      assertEquals(Uuid.fromBase32("ixanb8164627j82o81040g2o81").equals(val), true)
+      assertEquals(Uuid.MAX.toBase32(), "7ZZZZZZZZZZZZZZZZZZZZZZZZZ")
+    })
+    it("should sort as the bytes", function () {
+      const values = [Uuid.random(), Uuid.random(), Uuid.random(), Uuid.NIL, Uuid.MAX]
+      assertEquals(
+        values.map((value) => value.toBase32()).sort(),
+        [...values].sort((a, b) => Buffer.compare(a.getBuffer(), b.getBuffer())).map((value) => value.toBase32()),
+      )
+    })
+    it("should reject malformed values", function () {
+      assertThrows(() => Uuid.fromBase32("1XANB8164627J82081040G208"), InvalidUuidFormatError)
+      assertThrows(() => Uuid.fromBase32("8ZZZZZZZZZZZZZZZZZZZZZZZZZ"), InvalidUuidFormatError)
+      assertThrows(() => Uuid.fromBase32("1XANB8164627J82081040G208U"), InvalidUuidFormatError)
+    })
+  })
+
+  describe("decoders on subclasses", function () {
+    it("should return an instance of the subclass", function () {
+      const val = TimeUuid.fromString("3d555680-9886-11e4-8101-010101010101")
+      assertInstanceOf(TimeUuid.fromBase64Url(val.toBase64Url()), TimeUuid)
+      assertInstanceOf(TimeUuid.fromBase58(val.toBase58()), TimeUuid)
+      const decoded = TimeUuid.fromBase32(val.toBase32())
+      assertInstanceOf(decoded, TimeUuid)
+      assertEquals(decoded.getDate().getTime(), val.getDate().getTime())
+      assertInstanceOf(TimeUuidV7.fromBase58(TimeUuidV7.now().toBase58()), TimeUuidV7)
+    })
+  })
+
+  describe("isValid()", function () {
+    it("should test the accepted forms", function () {
+      assertEquals(Uuid.isValid("acb1ccdd-eeff-0011-2233-445566778813"), true)
+      assertEquals(Uuid.isValid("{ACB1CCDD-EEFF-0011-2233-445566778813}"), true)
+      assertEquals(Uuid.isValid("acb1ccdd-eeff-0011-2233-44556677881"), false)
+      assertEquals(Uuid.isValid(42), false)
+    })
+  })
+
+  describe("tryParse()", function () {
+    it("should return undefined for invalid values", function () {
+      assertEquals(Uuid.tryParse("22"), undefined)
+      assertEquals(
+        Uuid.tryParse("acb1ccddeeff00112233445566778813")?.toString(),
+        "acb1ccdd-eeff-0011-2233-445566778813",
+      )
+    })
+    it("should return an instance of the subclass it is called on", function () {
+      const val = TimeUuid.tryParse("urn:uuid:3d555680-9886-11e4-8101-010101010101")
+      assertEquals(val instanceof TimeUuid, true)
+      assertEquals(val?.getDate().getTime(), new Date("2015-01-10 5:05:05 GMT+0000").getTime())
+    })
+  })
+
   describe("random()", function () {
     it("should return a Uuid instance", function () {
       assertEquals(Uuid.random() instanceof Uuid, true)
@@ -85,6 +377,14 @@ describe("Uuid", () => {
       assertEquals(val.toString().charAt(14), "4")
       assertEquals(["8", "9", "a", "b"].indexOf(val.toString().charAt(19)) >= 0, true)
     })
+    it("should use the provided random source", function () {
+      const first = new SeededRandom(42)
+      const second = new SeededRandom(42)
+      const val = Uuid.random(first)
+      assertEquals(val.toString(), Uuid.random(second).toString())
+      assertEquals(val.toString().charAt(14), "4")
+      assertEquals(Uuid.random(first).toString(), Uuid.random(second).toString())
+    })
     it("should generate v4 uuids that do not collide", function () {
       const values: Record<string, boolean> = {}
       const length = 100000